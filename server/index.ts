@@ -0,0 +1,346 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { existsSync } from 'node:fs';
+import type { AnswerTiming, DailyPlan, DialogueTurn, FollowUpTurn, Question, RecognitionSegment, Seat, SessionData, SpeakingRate, Student, StudentSessionData } from '../src/types';
+import type { AiProvider } from '../src/services/aiProvider';
+import { createGeminiProvider } from '../src/services/providers/geminiProvider';
+import { createLocalProvider } from '../src/services/providers/localProvider';
+import { getSyllabusEntry, SYLLABUS } from '../src/data/syllabus';
+import { isRecord, validateDailyPlan, validateQuestion, ValidationError, type Fields } from '../src/services/validation';
+import { toAiRequestError, type AiErrorCategory } from '../src/services/request';
+import { decodeBlobs, PROXY_ROUTES, type ProxyErrorBody } from '../src/services/proxyProtocol';
+import { createRateLimiter } from './rateLimit';
+
+// --- AI server: holds the Gemini key and makes every AI call for the browser ---
+//
+// Settings (environment or .env.local):
+//   GEMINI_API_KEY          the key; never sent to the browser
+//   UPSTREAM                'gemini' or 'local' (the offline demo provider); default: gemini when a key is set
+//   GEMINI_BASE_URL         send Gemini requests elsewhere, e.g. a local stub of the API
+//   SERVER_PORT             default 8787
+//   RATE_LIMIT_PER_MINUTE   requests per client per minute, default 60
+//   TRUST_PROXY=1           take the client address from X-Forwarded-For (behind a reverse proxy)
+//   ALLOWED_ORIGIN          allow the app from another origin (CORS), e.g. https://ket.example.org
+
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const PORT = Number(process.env.SERVER_PORT) || 8787;
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE) || 60;
+// Evaluation carries every recording of a session, as base64
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+const MAX_TEXT_LENGTH = 5000;
+const MAX_SPEECH_LENGTH = 1000;
+const SPEAKING_RATES: readonly unknown[] = ['normal', 'slow', 'very slow'];
+
+// An error with the HTTP status and category to answer with
+class HttpError extends Error {
+  readonly status: number;
+  readonly category: AiErrorCategory;
+
+  constructor(status: number, category: AiErrorCategory, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.category = category;
+  }
+}
+
+const createUpstream = (): AiProvider => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  const upstream = process.env.UPSTREAM ?? (apiKey ? 'gemini' : 'local');
+  if (upstream === 'local') return createLocalProvider();
+  if (upstream !== 'gemini') throw new Error(`UPSTREAM must be "gemini" or "local", not "${upstream}"`);
+  if (!apiKey) throw new Error("GEMINI_API_KEY is not set. Set it, or run with UPSTREAM=local.");
+  return createGeminiProvider(apiKey, process.env.GEMINI_BASE_URL);
+};
+
+const provider = createUpstream();
+const limiter = createRateLimiter(RATE_LIMIT_PER_MINUTE);
+
+// --- Reading requests ---
+
+const invalid = (issue: string) => new ValidationError("request", [issue]);
+
+const readString = (value: unknown, field: string, maxLength = MAX_TEXT_LENGTH): string => {
+  if (typeof value !== 'string' || value.length > maxLength) throw invalid(`${field} must be text of at most ${maxLength} characters`);
+  return value;
+};
+
+const readNumber = (value: unknown, field: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw invalid(`${field} must be a number`);
+  return value;
+};
+
+const readBlob = (value: unknown, field: string): Blob => {
+  if (!(value instanceof Blob)) throw invalid(`${field} must be a recording`);
+  return value;
+};
+
+type Reader<T> = (value: unknown, field: string) => T;
+
+// A field that may be left out, but must be valid when it is there
+const optional = <T>(read: Reader<T>): Reader<T | undefined> => (value, field) =>
+  (value === undefined || value === null ? undefined : read(value, field));
+
+const listOf = <T>(read: Reader<T>): Reader<T[]> => (value, field) => {
+  if (!Array.isArray(value)) throw invalid(`${field} must be a list`);
+  return value.map((item, i) => read(item, `${field}[${i}]`));
+};
+
+// Session data is keyed by question id
+const mapOf = <T>(read: Reader<T>): Reader<Record<string, T>> => (value, field) => {
+  if (!isRecord(value)) throw invalid(`${field} must be an object`);
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, read(item, `${field}.${key}`)]));
+};
+
+const readOptionalString = optional(readString);
+
+const readStudent = (value: unknown, field: string): Student => {
+  if (!isRecord(value)) throw invalid(`${field} is missing`);
+  const student: Student = { id: readString(value.id, `${field}.id`, 100), name: readString(value.name, `${field}.name`, 100) };
+  return value.isAi === true ? { ...student, isAi: true } : student;
+};
+
+const readStudents = (value: unknown): [Student, Student] => {
+  if (!Array.isArray(value) || value.length !== 2) throw invalid("students must be a pair");
+  return [readStudent(value[0], "students[0]"), readStudent(value[1], "students[1]")];
+};
+
+// The shared validators name what they check; here it's the request that is wrong
+const asRequestField = <T>(field: string, validate: (value: unknown) => T) => (value: unknown): T => {
+  try {
+    return validate(value);
+  } catch (err) {
+    if (err instanceof ValidationError) throw new ValidationError("request", err.issues.map(issue => `${field}: ${issue}`));
+    throw err;
+  }
+};
+
+const readPlan = asRequestField<DailyPlan>("plan", validateDailyPlan);
+const readQuestion = asRequestField<Question>("question", validateQuestion);
+
+const readSeat = (value: unknown, field: string): Seat => {
+  if (value !== 'A' && value !== 'B') throw invalid(`${field} must be A or B`);
+  return value;
+};
+
+const readTiming = (value: unknown, field: string): AnswerTiming => {
+  if (!isRecord(value)) throw invalid(`${field} is missing`);
+  return {
+    turnStartedAt: readNumber(value.turnStartedAt, `${field}.turnStartedAt`),
+    startedAt: optional(readNumber)(value.startedAt, `${field}.startedAt`),
+    endedAt: readNumber(value.endedAt, `${field}.endedAt`),
+    speakingMs: readNumber(value.speakingMs, `${field}.speakingMs`),
+  };
+};
+
+const readReading = (value: unknown, field: string) => {
+  if (!isRecord(value)) throw invalid(`${field} is missing`);
+  return { transcript: readString(value.transcript, `${field}.transcript`), confidence: readNumber(value.confidence, `${field}.confidence`) };
+};
+
+const readSegment = (value: unknown, field: string): RecognitionSegment => {
+  const segment: RecognitionSegment = readReading(value, field);
+  const alternatives = optional(listOf(readReading))((value as Fields).alternatives, `${field}.alternatives`);
+  return alternatives ? { ...segment, alternatives } : segment;
+};
+
+const readRecognition = optional(listOf(readSegment));
+
+const readFollowUp = (value: unknown, field: string): FollowUpTurn => {
+  if (!isRecord(value)) throw invalid(`${field} is missing`);
+  return {
+    prompt: readString(value.prompt, `${field}.prompt`),
+    answer: readString(value.answer, `${field}.answer`),
+    audio: optional(readBlob)(value.audio, `${field}.audio`),
+    timing: optional(readTiming)(value.timing, `${field}.timing`),
+    recognition: readRecognition(value.recognition, `${field}.recognition`),
+  };
+};
+
+const readDialogueTurn = (value: unknown, field: string): DialogueTurn => {
+  if (!isRecord(value)) throw invalid(`${field} is missing`);
+  return {
+    seat: readSeat(value.seat, `${field}.seat`),
+    text: readString(value.text, `${field}.text`),
+    audio: optional(readBlob)(value.audio, `${field}.audio`),
+    timing: optional(readTiming)(value.timing, `${field}.timing`),
+    recognition: readRecognition(value.recognition, `${field}.recognition`),
+  };
+};
+
+const readStudentSessionData = (value: unknown, field: string): StudentSessionData => {
+  if (!isRecord(value)) throw invalid(`${field} is missing`);
+  return {
+    student: readStudent(value.student, `${field}.student`),
+    answers: mapOf(readString)(value.answers, `${field}.answers`),
+    audio: optional(mapOf(readBlob))(value.audio, `${field}.audio`),
+    timings: optional(mapOf(readTiming))(value.timings, `${field}.timings`),
+    followUps: optional(mapOf(readFollowUp))(value.followUps, `${field}.followUps`),
+    recognition: optional(mapOf(listOf(readSegment)))(value.recognition, `${field}.recognition`),
+  };
+};
+
+// Rebuilt field by field, so nothing unchecked reaches the provider
+const readSessionData = (value: unknown): SessionData => {
+  if (!isRecord(value)) throw invalid("sessionData is missing");
+  return {
+    studentA: readStudentSessionData(value.studentA, "sessionData.studentA"),
+    studentB: readStudentSessionData(value.studentB, "sessionData.studentB"),
+    turnOrder: optional(mapOf(listOf(readSeat)))(value.turnOrder, "sessionData.turnOrder"),
+    dialogues: optional(mapOf(listOf(readDialogueTurn)))(value.dialogues, "sessionData.dialogues"),
+  };
+};
+
+const readBody = (req: IncomingMessage): Promise<Fields> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    // Keep draining so the error reply can still be sent
+    if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (size > MAX_BODY_BYTES) return reject(new HttpError(413, 'bad_request', "The request is too large."));
+    try {
+      const body = decodeBlobs(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      if (!isRecord(body)) throw invalid("the body must be a JSON object");
+      resolve(body);
+    } catch (err) {
+      reject(err instanceof ValidationError ? err : invalid("the body is not valid JSON"));
+    }
+  });
+  req.on('error', reject);
+});
+
+// --- Routes: one per AiProvider call ---
+
+type Handler = (body: Fields, signal: AbortSignal) => Promise<unknown>;
+
+const ROUTES: Record<string, Handler> = {
+  [PROXY_ROUTES.plan]: async (body, signal) => {
+    const day = body.day;
+    if (typeof day !== 'number' || !Number.isInteger(day) || day < 1 || day > SYLLABUS.length) {
+      throw invalid(`day must be a whole number from 1 to ${SYLLABUS.length}`);
+    }
+    return provider.generateDayPlan(getSyllabusEntry(day), readStudents(body.students), signal);
+  },
+
+  // Resolves to a Blob, or null when the upstream has no voice
+  [PROXY_ROUTES.speech]: async (body, signal) => {
+    if (!SPEAKING_RATES.includes(body.rate)) throw invalid(`rate must be one of ${SPEAKING_RATES.join(', ')}`);
+    return provider.synthesizeSpeech(readString(body.text, "text", MAX_SPEECH_LENGTH), readString(body.voice, "voice", 50), body.rate as SpeakingRate, signal);
+  },
+
+  [PROXY_ROUTES.transcribe]: async (body, signal) => {
+    if (!(body.audio instanceof Blob)) throw invalid("audio is missing");
+    return { text: await provider.transcribeAudio(body.audio, readString(body.lang, "lang", 20), signal) };
+  },
+
+  [PROXY_ROUTES.evaluate]: async (body, signal) =>
+    provider.evaluateSession(readPlan(body.plan), readSessionData(body.sessionData), signal),
+
+  [PROXY_ROUTES.partnerAnswer]: async (body, signal) => {
+    const conversation = body.conversation;
+    if (conversation !== undefined && conversation !== null && (!Array.isArray(conversation) || conversation.length > 100)) {
+      throw invalid("conversation must be a list of lines");
+    }
+    const text = await provider.generatePartnerAnswer(
+      readPlan(body.plan),
+      readQuestion(body.question),
+      readStudent(body.partner, "partner"),
+      readOptionalString(body.learnerAnswer, "learnerAnswer"),
+      conversation ? conversation.map((line, i) => readString(line, `conversation[${i}]`)) : undefined,
+      signal
+    );
+    return { text };
+  },
+
+  [PROXY_ROUTES.followUp]: async (body, signal) => ({
+    text: await provider.generateFollowUp(readPlan(body.plan), readQuestion(body.question), readStudent(body.learner, "learner"), readString(body.answer, "answer"), signal),
+  }),
+};
+
+// --- Replies ---
+
+const STATUS_BY_CATEGORY: Record<AiErrorCategory, number> = {
+  offline: 502, // the server could not reach the upstream
+  timeout: 504,
+  rate_limit: 429,
+  auth: 502, // the server's own key was refused, not the browser's fault
+  server: 502,
+  invalid_response: 502,
+  bad_request: 400,
+  cancelled: 499,
+  unknown: 500,
+};
+
+const sendError = (res: ServerResponse, status: number, category: AiErrorCategory, message: string, headers: Record<string, string> = {}) => {
+  if (res.headersSent || res.destroyed) return;
+  const body: ProxyErrorBody = { error: message, category };
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendResult = async (res: ServerResponse, result: unknown) => {
+  if (res.destroyed) return;
+  if (result === null) {
+    res.writeHead(204).end();
+  } else if (result instanceof Blob) {
+    res.writeHead(200, { 'Content-Type': result.type || 'application/octet-stream' });
+    res.end(Buffer.from(await result.arrayBuffer()));
+  } else {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(result));
+  }
+};
+
+const clientIdOf = (req: IncomingMessage): string => {
+  const forwarded = process.env.TRUST_PROXY === '1' ? String(req.headers['x-forwarded-for'] ?? '').split(',')[0].trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  const allowedOrigin = process.env.ALLOWED_ORIGIN;
+  if (allowedOrigin) {
+    res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'POST');
+    if (req.method === 'OPTIONS') return void res.writeHead(204).end();
+  }
+
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  const handler = ROUTES[path];
+  if (!handler) return sendError(res, 404, 'bad_request', `Unknown route ${path}`);
+  if (req.method !== 'POST') return sendError(res, 405, 'bad_request', "Use POST.", { Allow: 'POST' });
+
+  const limit = limiter.take(clientIdOf(req));
+  if (!limit.allowed) {
+    return sendError(res, 429, 'rate_limit', "Too many requests from this device.", { 'Retry-After': String(limit.retryAfterSeconds) });
+  }
+
+  // The browser gave up (timeout, cancel, closed tab): stop the upstream call too
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const body = await readBody(req);
+    await sendResult(res, await handler(body, controller.signal));
+  } catch (err) {
+    if (err instanceof HttpError) return sendError(res, err.status, err.category, err.message);
+    if (err instanceof ValidationError && err.subject === "request") return sendError(res, 400, 'bad_request', err.message);
+    const error = toAiRequestError(err);
+    if (error.category !== 'cancelled') console.error(`${path} failed (${error.category}):`, err);
+    sendError(res, STATUS_BY_CATEGORY[error.category], error.category, error.message);
+  }
+};
+
+createServer((req, res) => {
+  handleRequest(req, res).catch(err => {
+    console.error("Unhandled error", err);
+    sendError(res, 500, 'unknown', "Internal error.");
+  });
+}).listen(PORT, () => {
+  console.log(`AI server (${provider.label}) listening on http://localhost:${PORT}, ${RATE_LIMIT_PER_MINUTE} requests per client per minute`);
+});
@@ -0,0 +1,42 @@
+// --- Per-client request limit: a fixed one-minute window per client ---
+// In memory, which is enough for one server per school or family.
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+export interface RateLimiter {
+  take: (clientId: string, now?: number) => RateLimitResult;
+}
+
+const WINDOW_MS = 60000;
+// Forgetting idle clients keeps the map small on a long-running server
+const PRUNE_ABOVE = 1000;
+
+export const createRateLimiter = (requestsPerMinute: number): RateLimiter => {
+  const windows = new Map<string, { startedAt: number, count: number }>();
+
+  const prune = (now: number) => {
+    for (const [clientId, window] of windows) {
+      if (now - window.startedAt >= WINDOW_MS) windows.delete(clientId);
+    }
+  };
+
+  const take = (clientId: string, now = Date.now()): RateLimitResult => {
+    if (windows.size > PRUNE_ABOVE) prune(now);
+
+    let window = windows.get(clientId);
+    if (!window || now - window.startedAt >= WINDOW_MS) {
+      window = { startedAt: now, count: 0 };
+      windows.set(clientId, window);
+    }
+    if (window.count >= requestsPerMinute) {
+      return { allowed: false, retryAfterSeconds: Math.ceil((window.startedAt + WINDOW_MS - now) / 1000) };
+    }
+    window.count++;
+    return { allowed: true, retryAfterSeconds: 0 };
+  };
+
+  return { take };
+};
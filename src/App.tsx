@@ -1,31 +1,114 @@
-import React, { useState } from 'react';
-import { Calendar, UserCircle2, Mic2 } from 'lucide-react';
-import { generateDayPlan } from './services/geminiService';
-import type { DailyPlan } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Calendar, UserCircle2, Mic2, History, Settings, TrendingUp, CheckCircle2, RefreshCw, PenSquare } from 'lucide-react';
+import { generateDayPlan, getProviderLabel } from './services/geminiService';
+import type { AppSettings, DailyPlan, Roster, SessionRecord, Student } from './types';
+import { loadRoster, saveRoster, getSessionStudents } from './services/rosterStore';
+import { loadSettings, saveSettings } from './services/settingsStore';
+import { listSessions } from './services/historyStore';
+import { summarizeDays } from './services/progress';
+import { getSyllabusEntry } from './data/syllabus';
+import { getPlan, savePlan, listPlans } from './services/planStore';
+import { toAiRequestError, type AiRequestError } from './services/request';
 import TestSession from './components/TestSession';
+import SessionHistory from './components/SessionHistory';
+import RosterPanel from './components/RosterPanel';
+import SettingsPanel from './components/SettingsPanel';
+import ProgressDashboard from './components/ProgressDashboard';
+import PlanSetControls from './components/PlanSetControls';
+import PlanEditor from './components/PlanEditor';
+import RetryPrompt from './components/RetryPrompt';
 
 const App: React.FC = () => {
   const [selectedDay, setSelectedDay] = useState<number | null>(null);
   const [plan, setPlan] = useState<DailyPlan | null>(null);
   const [loading, setLoading] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [roster, setRoster] = useState<Roster>(loadRoster);
+  const [sessionStudents, setSessionStudents] = useState<[Student, Student] | null>(null);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showProgress, setShowProgress] = useState(false);
+  const [records, setRecords] = useState<SessionRecord[]>([]);
+  const [savedPlans, setSavedPlans] = useState<Map<number, DailyPlan>>(new Map());
+  const [editingDay, setEditingDay] = useState<number | null>(null);
+  const [plansVersion, setPlansVersion] = useState(0);
+  const [planError, setPlanError] = useState<{ day: number, regenerate: boolean, error: AiRequestError } | null>(null);
+  const planRequestRef = useRef<AbortController | null>(null);
+
+  const pairStudents = getSessionStudents(roster);
+  const dayProgress = summarizeDays(records);
+  const isOnDashboard = !plan && !showHistory && !showProgress && editingDay === null;
+
+  // Reload whenever the grid is shown again, so new or deleted sessions are reflected
+  useEffect(() => {
+    if (!isOnDashboard) return;
+    listSessions()
+      .then(setRecords)
+      .catch(err => console.error("Failed to load history", err));
+    listPlans()
+      .then(plans => setSavedPlans(new Map(plans.map(p => [p.day, p]))))
+      .catch(err => console.error("Failed to load saved plans", err));
+  }, [isOnDashboard, plansVersion]);
 
   const days = Array.from({ length: 30 }, (_, i) => i + 1);
 
-  const handleDaySelect = async (day: number) => {
+  const updateRoster = (next: Roster) => {
+    setRoster(next);
+    saveRoster(next);
+  };
+
+  const updateSettings = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  // Reuses the saved plan for the day unless `regenerate` is set
+  const handleDaySelect = async (day: number, regenerate = false) => {
+    if (!pairStudents) return;
     setSelectedDay(day);
+    // Fix the pair for this session so roster edits cannot change it mid-test
+    setSessionStudents(pairStudents);
+    setPlanError(null);
     setLoading(true);
+    const controller = new AbortController();
+    planRequestRef.current = controller;
     try {
-      const generatedPlan = await generateDayPlan(day);
+      const saved = regenerate ? undefined : await getPlan(day).catch(err => {
+        console.warn("Could not read saved plan, generating a new one", err);
+        return undefined;
+      });
+      if (saved) {
+        setPlan(saved);
+        return;
+      }
+      const generatedPlan = await generateDayPlan(getSyllabusEntry(day), pairStudents, { signal: controller.signal });
+      savePlan(generatedPlan).catch(err => console.warn("Could not save plan", err));
       setPlan(generatedPlan);
-    } catch (error) {
-      console.error("Failed to load plan", error);
-      alert("Failed to load today's plan. Please check your API key or connection.");
+    } catch (err) {
+      const error = toAiRequestError(err);
       setSelectedDay(null);
+      // Cancelled from the loading screen: just go back to the grid
+      if (error.category !== 'cancelled') {
+        console.error("Failed to load plan", err);
+        setPlanError({ day, regenerate, error });
+      }
     } finally {
+      planRequestRef.current = null;
       setLoading(false);
     }
   };
 
+  const cancelPlanRequest = () => planRequestRef.current?.abort();
+
+  const handleRegenerate = (day: number) => {
+    const warning = savedPlans.get(day)?.source === 'authored'
+      ? `Day ${day} uses questions written by a teacher. Replace them with AI-generated ones?`
+      : `Replace the saved Day ${day} questions with a new set? Everyone using this device will get the new questions.`;
+    if (window.confirm(warning)) {
+      handleDaySelect(day, true);
+    }
+  };
+
   const reset = () => {
     setPlan(null);
     setSelectedDay(null);
@@ -41,12 +124,27 @@ const App: React.FC = () => {
           </div>
         </div>
         <h2 className="text-xl font-semibold text-slate-700 animate-pulse">Consulting AI Examiner for Day {selectedDay}...</h2>
+        <button onClick={cancelPlanRequest} className="px-4 py-2 rounded-lg text-sm font-medium text-gray-600 hover:bg-gray-200">
+          Cancel
+        </button>
       </div>
     );
   }
 
-  if (plan) {
-    return <TestSession plan={plan} onBack={reset} />;
+  if (plan && sessionStudents) {
+    return <TestSession plan={plan} students={sessionStudents} timing={settings.timing} followUps={settings.followUps} conversation={settings.conversation} voice={settings.voice} recognition={settings.recognition} onBack={reset} />;
+  }
+
+  if (showHistory) {
+    return <SessionHistory onBack={() => setShowHistory(false)} />;
+  }
+
+  if (editingDay !== null) {
+    return <PlanEditor day={editingDay} onBack={() => setEditingDay(null)} />;
+  }
+
+  if (showProgress) {
+    return <ProgressDashboard onBack={() => setShowProgress(false)} />;
   }
 
   return (
@@ -62,8 +160,29 @@ const App: React.FC = () => {
               <p className="text-xs text-gray-500">AI-Powered Preparation</p>
             </div>
           </div>
-          <div className="text-sm font-medium text-blue-600 bg-blue-50 px-3 py-1 rounded-full">
-            30 Day Challenge
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setShowHistory(true)}
+              className="flex items-center gap-1.5 text-sm font-medium text-gray-700 hover:text-blue-600 px-3 py-1 rounded-full hover:bg-gray-100 transition-colors"
+            >
+              <History className="w-4 h-4" /> History
+            </button>
+            <button
+              onClick={() => setShowProgress(true)}
+              className="flex items-center gap-1.5 text-sm font-medium text-gray-700 hover:text-blue-600 px-3 py-1 rounded-full hover:bg-gray-100 transition-colors"
+            >
+              <TrendingUp className="w-4 h-4" /> Progress
+            </button>
+            <button
+              onClick={() => setShowSettings(true)}
+              className="p-2 text-gray-700 hover:text-blue-600 rounded-full hover:bg-gray-100 transition-colors"
+              title="Settings"
+            >
+              <Settings className="w-4 h-4" />
+            </button>
+            <div className="text-sm font-medium text-blue-600 bg-blue-50 px-3 py-1 rounded-full">
+              30 Day Challenge
+            </div>
           </div>
         </div>
       </header>
@@ -72,33 +191,88 @@ const App: React.FC = () => {
         <div className="text-center mb-12">
           <h2 className="text-3xl font-bold text-gray-900 mb-4">Select Your Training Day</h2>
           <p className="text-gray-600 max-w-lg mx-auto">
-            Choose a day to generate a unique speaking test session. Practice Part 1 (Interview) and Part 2 (Discussion) with an AI examiner.
+            Choose a day to start its speaking test. Practice Part 1 (Interview) and Part 2 (Discussion) with an AI examiner. Each day's questions are saved the first time, so everyone sits the same test.
           </p>
         </div>
 
+        <RosterPanel roster={roster} onChange={updateRoster} />
+
+        <PlanSetControls savedDays={savedPlans.size} onImported={() => setPlansVersion(v => v + 1)} />
+
         <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 lg:grid-cols-6 gap-4">
-          {days.map((day) => (
-            <button
-              key={day}
-              onClick={() => handleDaySelect(day)}
-              className="group relative flex flex-col items-center justify-center p-6 bg-white border border-gray-200 rounded-xl hover:border-blue-500 hover:shadow-lg transition-all duration-200 aspect-square"
-            >
-              <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                 <Calendar className="w-4 h-4 text-blue-500" />
+          {days.map((day) => {
+            const progress = dayProgress.get(day);
+            return (
+              <div key={day} className="relative">
+                <button
+                  onClick={() => handleDaySelect(day)}
+                  disabled={!pairStudents}
+                  title={progress ? `Completed ${progress.sessionCount}×, last on ${new Date(progress.lastTimestamp).toLocaleDateString()}` : undefined}
+                  className={`group relative w-full flex flex-col items-center justify-center p-6 border rounded-xl hover:border-blue-500 hover:shadow-lg transition-all duration-200 aspect-square disabled:opacity-50 disabled:pointer-events-none ${progress ? 'bg-green-50 border-green-200' : 'bg-white border-gray-200'}`}
+                >
+                  <div className="absolute top-2 right-2">
+                    {progress
+                      ? <CheckCircle2 className="w-4 h-4 text-green-600" />
+                      : <Calendar className="w-4 h-4 text-blue-500 opacity-0 group-hover:opacity-100 transition-opacity" />}
+                  </div>
+                  <span className={`text-3xl font-black group-hover:text-blue-600 transition-colors ${progress ? 'text-green-700' : 'text-gray-300'}`}>
+                    {day}
+                  </span>
+                  <span className="text-xs font-semibold text-gray-500 mt-2 uppercase tracking-wider group-hover:text-gray-900">
+                    Day
+                  </span>
+                  <span className="mt-1 text-[11px] text-gray-500 text-center leading-tight line-clamp-2">
+                    {getSyllabusEntry(day).focus}
+                  </span>
+                  {savedPlans.get(day)?.source === 'authored' && (
+                    <span className="mt-1 text-[10px] font-bold text-amber-700 bg-amber-50 px-1.5 rounded-full uppercase tracking-wide">Teacher</span>
+                  )}
+                  {progress && progress.lastScores.length > 0 && (
+                    <span className="mt-1 text-[11px] text-gray-600 text-center leading-tight">
+                      {progress.lastScores.map(s => `${s.name} ${s.score}/5`).join(' · ')}
+                    </span>
+                  )}
+                </button>
+                <div className="absolute top-2 left-2 flex gap-0.5">
+                  <button
+                    onClick={() => setEditingDay(day)}
+                    className="p-1 rounded-full text-gray-400 hover:text-blue-600 hover:bg-blue-50"
+                    title={`Edit Day ${day} questions`}
+                  >
+                    <PenSquare className="w-3.5 h-3.5" />
+                  </button>
+                  {savedPlans.has(day) && (
+                    <button
+                      onClick={() => handleRegenerate(day)}
+                      disabled={!pairStudents}
+                      className="p-1 rounded-full text-gray-400 hover:text-blue-600 hover:bg-blue-50 disabled:hidden"
+                      title={`Regenerate Day ${day} questions`}
+                    >
+                      <RefreshCw className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
               </div>
-              <span className="text-3xl font-black text-gray-300 group-hover:text-blue-600 transition-colors">
-                {day}
-              </span>
-              <span className="text-xs font-semibold text-gray-500 mt-2 uppercase tracking-wider group-hover:text-gray-900">
-                Day
-              </span>
-            </button>
-          ))}
+            );
+          })}
         </div>
       </main>
       
+      {showSettings && (
+        <SettingsPanel settings={settings} onChange={updateSettings} onClose={() => setShowSettings(false)} />
+      )}
+
+      {planError && (
+        <RetryPrompt
+          error={planError.error}
+          action={`load the Day ${planError.day} questions`}
+          onRetry={() => handleDaySelect(planError.day, planError.regenerate)}
+          onDismiss={() => setPlanError(null)}
+        />
+      )}
+
       <footer className="mt-12 py-8 border-t border-gray-200 bg-white text-center">
-         <p className="text-gray-400 text-sm">Powered by Gemini 2.5 Flash & TTS</p>
+         <p className="text-gray-400 text-sm">Powered by {getProviderLabel()}</p>
       </footer>
     </div>
   );
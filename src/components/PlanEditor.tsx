@@ -0,0 +1,295 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, PenSquare, Plus, Trash2, ArrowUp, ArrowDown, Save, Library, BookmarkPlus, Loader2, X } from 'lucide-react';
+import type { BankQuestion, DailyPlan, PromptOption, Question, QuestionPart } from '../types';
+import { getPlan, savePlan } from '../services/planStore';
+import { listBankQuestions, addToBank, deleteBankQuestion } from '../services/questionBank';
+import { createId } from '../services/ids';
+import { getSyllabusEntry } from '../data/syllabus';
+import { findPromptIcon } from '../data/promptIcons';
+import { resolvePromptIcon } from './promptIconImages';
+
+const PARTS: QuestionPart[] = ['Part 1', 'Part 2'];
+const TARGETS: Question['target'][] = ['A', 'B', 'Both'];
+const TARGET_LABELS: Record<Question['target'], string> = { A: "Student A", B: "Student B", Both: "Both" };
+
+const blankQuestion = (part: QuestionPart = 'Part 1'): Question => ({
+  id: createId(),
+  text: "",
+  part,
+  target: part === 'Part 2' ? 'Both' : 'A',
+});
+
+// Empty text is allowed while typing; saving needs a topic and at least one real question
+const validate = (draft: DailyPlan): string | null => {
+  if (!draft.topic.trim()) return "Give the day a topic.";
+  if (draft.questions.length === 0) return "Add at least one question.";
+  if (draft.questions.some(q => !q.text.trim())) return "Fill in or remove the empty questions.";
+  return null;
+};
+
+// Part 2 pictures: type a label and the closest icon from the bundled library is picked
+const PromptOptionsEditor = ({ prompts, onChange }: { prompts: PromptOption[], onChange: (prompts: PromptOption[]) => void }) => {
+  const [label, setLabel] = useState("");
+
+  const add = () => {
+    if (!label.trim()) return;
+    onChange([...prompts, { label: label.trim(), icon: findPromptIcon(label) }]);
+    setLabel("");
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Pictures</span>
+      {prompts.map((option, i) => {
+        const Icon = resolvePromptIcon(option);
+        return (
+          <span key={`${option.label}-${i}`} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-blue-50 border border-blue-100 text-sm text-blue-900">
+            <Icon className="w-4 h-4" /> {option.label}
+            <button onClick={() => onChange(prompts.filter((_, j) => j !== i))} className="p-0.5 text-blue-300 hover:text-red-600" title="Remove picture">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        );
+      })}
+      <input
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter') add(); }}
+        onBlur={add}
+        placeholder="Add a picture, e.g. Playing football"
+        className="flex-1 min-w-[12rem] px-2 py-1 rounded-lg border border-gray-300 text-sm"
+      />
+    </div>
+  );
+};
+
+interface PlanEditorProps {
+  day: number;
+  onBack: () => void;
+}
+
+const PlanEditor: React.FC<PlanEditorProps> = ({ day, onBack }) => {
+  const [draft, setDraft] = useState<DailyPlan | null>(null);
+  const [bank, setBank] = useState<BankQuestion[]>([]);
+  const [bankFilter, setBankFilter] = useState<QuestionPart | 'all'>('all');
+  const [status, setStatus] = useState<{ text: string, isError: boolean } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getPlan(day)
+      .catch(err => {
+        console.warn("Could not read saved plan", err);
+        return undefined;
+      })
+      .then(saved => setDraft(saved ?? { day, topic: getSyllabusEntry(day).focus, questions: [blankQuestion()], source: 'authored' }));
+    listBankQuestions()
+      .then(setBank)
+      .catch(err => console.error("Failed to load question bank", err));
+  }, [day]);
+
+  if (!draft) {
+    return (
+      <div className="flex justify-center items-center min-h-screen bg-slate-50">
+        <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  const setQuestions = (questions: Question[]) => {
+    setDraft({ ...draft, questions });
+    setStatus(null);
+  };
+
+  const updateQuestion = (id: string, patch: Partial<Question>) =>
+    setQuestions(draft.questions.map(q => (q.id === id ? { ...q, ...patch } : q)));
+
+  const moveQuestion = (index: number, offset: -1 | 1) => {
+    const next = [...draft.questions];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    setQuestions(next);
+  };
+
+  const handleSave = async () => {
+    const problem = validate(draft);
+    if (problem) {
+      setStatus({ text: problem, isError: true });
+      return;
+    }
+    setSaving(true);
+    try {
+      const plan: DailyPlan = {
+        ...draft,
+        topic: draft.topic.trim(),
+        // Pictures only belong to Part 2; drop any left over after switching a question to Part 1
+        questions: draft.questions.map(({ prompts, ...q }) => ({
+          ...q,
+          text: q.text.trim(),
+          ...(q.part === 'Part 2' && prompts?.length ? { prompts } : {}),
+        })),
+        source: 'authored',
+      };
+      await savePlan(plan);
+      setDraft(plan);
+      setStatus({ text: `Saved. Day ${day} will now use these questions.`, isError: false });
+    } catch (err) {
+      console.error("Failed to save plan", err);
+      setStatus({ text: "Could not save the plan on this device.", isError: true });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddToBank = async (question: Question) => {
+    if (!question.text.trim()) return;
+    try {
+      const entry = await addToBank(question, draft.topic.trim());
+      setBank(prev => [entry, ...prev]);
+    } catch (err) {
+      console.error("Failed to save question to bank", err);
+      setStatus({ text: "Could not add the question to the bank.", isError: true });
+    }
+  };
+
+  const handleDeleteFromBank = async (id: string) => {
+    try {
+      await deleteBankQuestion(id);
+      setBank(prev => prev.filter(q => q.id !== id));
+    } catch (err) {
+      console.error("Failed to delete bank question", err);
+    }
+  };
+
+  const insertBankQuestion = (entry: BankQuestion) =>
+    setQuestions([...draft.questions, { id: createId(), text: entry.text, part: entry.part, target: entry.target, prompts: entry.prompts }]);
+
+  const visibleBank = bank.filter(q => bankFilter === 'all' || q.part === bankFilter);
+
+  return (
+    <div className="min-h-screen bg-slate-50 font-sans">
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-20">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <button onClick={onBack} className="p-2 rounded-lg hover:bg-gray-100 text-gray-600" title="Back to Dashboard">
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <h1 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+              <PenSquare className="w-5 h-5 text-blue-600" /> Edit Day {day}
+            </h1>
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-semibold hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" /> Save plan
+          </button>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 py-8 grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <section className="lg:col-span-2 space-y-4">
+          {status && (
+            <p className={`text-sm rounded-lg px-3 py-2 border ${status.isError ? 'text-red-700 bg-red-50 border-red-200' : 'text-green-800 bg-green-50 border-green-200'}`}>
+              {status.text}
+            </p>
+          )}
+          <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wider">
+            Topic
+            <input
+              value={draft.topic}
+              onChange={(e) => { setDraft({ ...draft, topic: e.target.value }); setStatus(null); }}
+              className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-300 text-base font-semibold text-gray-900 normal-case tracking-normal"
+            />
+          </label>
+
+          <ol className="space-y-3">
+            {draft.questions.map((q, i) => (
+              <li key={q.id} className="bg-white border border-gray-200 rounded-xl p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-bold text-gray-500 bg-gray-100 px-2 py-0.5 rounded-full">Q{i + 1}</span>
+                  <select
+                    value={q.part}
+                    onChange={(e) => updateQuestion(q.id, { part: e.target.value as QuestionPart })}
+                    className="px-2 py-1 rounded-lg border border-gray-300 text-sm"
+                  >
+                    {PARTS.map(part => <option key={part} value={part}>{part}</option>)}
+                  </select>
+                  <select
+                    value={q.target}
+                    onChange={(e) => updateQuestion(q.id, { target: e.target.value as Question['target'] })}
+                    className="px-2 py-1 rounded-lg border border-gray-300 text-sm"
+                  >
+                    {TARGETS.map(target => <option key={target} value={target}>{TARGET_LABELS[target]}</option>)}
+                  </select>
+                  <div className="flex-1" />
+                  <button onClick={() => moveQuestion(i, -1)} disabled={i === 0} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30" title="Move up"><ArrowUp className="w-4 h-4" /></button>
+                  <button onClick={() => moveQuestion(i, 1)} disabled={i === draft.questions.length - 1} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30" title="Move down"><ArrowDown className="w-4 h-4" /></button>
+                  <button onClick={() => handleAddToBank(q)} disabled={!q.text.trim()} className="p-1 text-gray-400 hover:text-blue-600 disabled:opacity-30" title="Save to question bank"><BookmarkPlus className="w-4 h-4" /></button>
+                  <button onClick={() => setQuestions(draft.questions.filter(other => other.id !== q.id))} className="p-1 text-gray-400 hover:text-red-600" title="Remove"><Trash2 className="w-4 h-4" /></button>
+                </div>
+                <textarea
+                  value={q.text}
+                  onChange={(e) => updateQuestion(q.id, { text: e.target.value })}
+                  placeholder="Question text, without learner names"
+                  rows={2}
+                  className="w-full px-3 py-2 rounded-lg border border-gray-300 text-sm resize-y"
+                />
+                {q.part === 'Part 2' && (
+                  <PromptOptionsEditor prompts={q.prompts ?? []} onChange={(prompts) => updateQuestion(q.id, { prompts })} />
+                )}
+              </li>
+            ))}
+          </ol>
+
+          <div className="flex gap-2">
+            {PARTS.map(part => (
+              <button
+                key={part}
+                onClick={() => setQuestions([...draft.questions, blankQuestion(part)])}
+                className="flex items-center gap-1 px-3 py-2 rounded-lg border border-dashed border-gray-300 text-sm font-medium text-gray-600 hover:border-blue-500 hover:text-blue-600"
+              >
+                <Plus className="w-4 h-4" /> {part} question
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <aside className="bg-white border border-gray-200 rounded-2xl p-4 h-fit">
+          <h3 className="flex items-center gap-2 font-bold text-gray-900 mb-3">
+            <Library className="w-5 h-5 text-blue-600" /> Question Bank
+          </h3>
+          <div className="flex gap-1 p-1 bg-gray-100 rounded-lg mb-3">
+            {(['all', ...PARTS] as const).map(filter => (
+              <button
+                key={filter}
+                onClick={() => setBankFilter(filter)}
+                className={`flex-1 px-2 py-1 text-xs font-semibold rounded-md ${bankFilter === filter ? 'bg-white text-blue-700 shadow-sm' : 'text-gray-500 hover:text-gray-800'}`}
+              >
+                {filter === 'all' ? "All" : filter}
+              </button>
+            ))}
+          </div>
+          {visibleBank.length === 0 ? (
+            <p className="text-sm text-gray-500">Save questions here with the bookmark button to reuse them on other days.</p>
+          ) : (
+            <ul className="space-y-2 max-h-[60vh] overflow-y-auto">
+              {visibleBank.map(entry => (
+                <li key={entry.id} className="flex gap-2 items-start px-3 py-2 rounded-lg bg-gray-50 border border-gray-100">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-800">{entry.text}</p>
+                    <p className="text-xs text-gray-500 mt-0.5">{entry.part} · {TARGET_LABELS[entry.target]} · {entry.topic}</p>
+                  </div>
+                  <button onClick={() => insertBankQuestion(entry)} className="p-1 text-gray-400 hover:text-blue-600" title="Add to this day"><Plus className="w-4 h-4" /></button>
+                  <button onClick={() => handleDeleteFromBank(entry.id)} className="p-1 text-gray-400 hover:text-red-600" title="Delete from bank"><Trash2 className="w-4 h-4" /></button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </aside>
+      </main>
+    </div>
+  );
+};
+
+export default PlanEditor;
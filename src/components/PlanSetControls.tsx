@@ -0,0 +1,73 @@
+import React, { useRef, useState } from 'react';
+import { Download, Upload, BookOpen } from 'lucide-react';
+import { exportPlanSet, importPlanSet } from '../services/planStore';
+
+interface PlanSetControlsProps {
+  savedDays: number;
+  onImported: () => void;
+}
+
+// Lets a teacher hand the same 30 days to the whole class as one JSON file
+const PlanSetControls: React.FC<PlanSetControlsProps> = ({ savedDays, onImported }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ text: string, isError: boolean } | null>(null);
+
+  const handleExport = async () => {
+    try {
+      const json = await exportPlanSet();
+      const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `ket-plans-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setMessage(null);
+    } catch (err) {
+      console.error("Failed to export plans", err);
+      setMessage({ text: "Could not export the saved plans.", isError: true });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // allow picking the same file again
+    if (!file) return;
+    try {
+      const days = await importPlanSet(await file.text());
+      setMessage({ text: `Imported ${days.length} day${days.length === 1 ? "" : "s"}.`, isError: false });
+      onImported();
+    } catch (err) {
+      console.error("Failed to import plans", err);
+      setMessage({ text: err instanceof Error ? err.message : "Could not import this file.", isError: true });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+      <p className="flex items-center gap-2 text-sm text-gray-600">
+        <BookOpen className="w-4 h-4 text-blue-600" /> {savedDays} of 30 days have saved questions
+        {message && (
+          <span className={message.isError ? "text-red-600" : "text-green-700"}>· {message.text}</span>
+        )}
+      </p>
+      <div className="flex gap-2">
+        <button
+          onClick={handleExport}
+          disabled={savedDays === 0}
+          className="flex items-center gap-1.5 text-sm font-medium text-gray-700 px-3 py-1.5 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" /> Export plans
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1.5 text-sm font-medium text-gray-700 px-3 py-1.5 rounded-lg border border-gray-300 bg-white hover:bg-gray-50"
+        >
+          <Upload className="w-4 h-4" /> Import plans
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+    </div>
+  );
+};
+
+export default PlanSetControls;
@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, TrendingUp, Loader2, XCircle, CalendarCheck } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
+import type { SessionRecord } from '../types';
+import { listSessions } from '../services/historyStore';
+import { summarizeDays, summarizeLearners, type LearnerProgress } from '../services/progress';
+
+const LINE_COLORS = ['#3b82f6', '#8b5cf6', '#10b981', '#f59e0b', '#ef4444', '#06b6d4'];
+
+const ScoreTrend = ({ learner, color }: { learner: LearnerProgress, color: string }) => {
+  const data = learner.points.map((p, i) => ({
+    session: i + 1,
+    label: `Day ${p.day} · ${new Date(p.timestamp).toLocaleDateString()}`,
+    score: p.score,
+  }));
+  return (
+    <div className="h-56 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis dataKey="session" tick={{ fontSize: 12 }} />
+          <YAxis domain={[0, 5]} allowDecimals={false} />
+          <Tooltip labelFormatter={(_, payload) => payload?.[0]?.payload.label ?? ""} />
+          <Line type="monotone" dataKey="score" stroke={color} strokeWidth={3} dot={{ r: 4 }} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+const LearnerCard = ({ learner, color }: { learner: LearnerProgress, color: string }) => {
+  const latest = learner.points[learner.points.length - 1];
+  const average = learner.points.reduce((sum, p) => sum + p.score, 0) / learner.points.length;
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-200">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-xl font-bold" style={{ color }}>{learner.student.name}</h3>
+        <div className="text-right text-sm text-gray-500">
+          <p>Latest <span className="text-lg font-black text-gray-900">{latest.score}/5</span></p>
+          <p>Average {average.toFixed(1)} over {learner.points.length} session{learner.points.length === 1 ? "" : "s"}</p>
+        </div>
+      </div>
+      <ScoreTrend learner={learner} color={color} />
+      <h4 className="flex items-center gap-2 font-semibold text-red-600 mt-4 mb-2">
+        <XCircle className="w-5 h-5" /> Most Frequent Areas to Improve
+      </h4>
+      {learner.topBadPoints.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing recorded yet.</p>
+      ) : (
+        <ul className="space-y-1 text-sm text-gray-700">
+          {learner.topBadPoints.map(point => (
+            <li key={point.text} className="flex justify-between gap-3">
+              <span>{point.text}</span>
+              <span className="text-xs font-bold text-gray-500 bg-gray-100 px-2 py-0.5 rounded-full h-fit whitespace-nowrap">×{point.count}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+interface ProgressDashboardProps {
+  onBack: () => void;
+}
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ onBack }) => {
+  const [records, setRecords] = useState<SessionRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    listSessions()
+      .then(setRecords)
+      .catch(err => {
+        console.error("Failed to load progress", err);
+        setErrorMsg("Could not open saved sessions on this device.");
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const learners = summarizeLearners(records);
+  const completedDays = summarizeDays(records).size;
+
+  return (
+    <div className="min-h-screen bg-slate-50 font-sans">
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-20">
+        <div className="max-w-5xl mx-auto px-4 py-4 flex items-center gap-3">
+          <button onClick={onBack} className="p-2 rounded-lg hover:bg-gray-100 text-gray-600" title="Back to Dashboard">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+            <TrendingUp className="w-5 h-5 text-blue-600" /> Progress
+          </h1>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 py-8">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+          </div>
+        ) : errorMsg ? (
+          <p className="text-center text-red-600">{errorMsg}</p>
+        ) : learners.length === 0 ? (
+          <p className="text-center text-gray-500">No finished sessions yet. Complete a day to start tracking progress.</p>
+        ) : (
+          <>
+            <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-200 mb-8">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="flex items-center gap-2 text-lg font-bold text-gray-800">
+                  <CalendarCheck className="w-5 h-5 text-green-600" /> 30 Day Challenge
+                </h3>
+                <span className="text-sm font-semibold text-gray-600">{completedDays} of 30 days done</span>
+              </div>
+              <div className="h-3 bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full bg-green-500 transition-all" style={{ width: `${Math.min(100, (completedDays / 30) * 100)}%` }} />
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+              {learners.map((learner, i) => (
+                <LearnerCard key={learner.student.id} learner={learner} color={LINE_COLORS[i % LINE_COLORS.length]} />
+              ))}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ProgressDashboard;
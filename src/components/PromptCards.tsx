@@ -0,0 +1,27 @@
+import React from 'react';
+import type { PromptOption } from '../types';
+import { resolvePromptIcon } from './promptIconImages';
+
+interface PromptCardsProps {
+  prompts: PromptOption[];
+}
+
+// The picture set for a Part 2 discussion, shown on the examiner's dark panel
+const PromptCards: React.FC<PromptCardsProps> = ({ prompts }) => (
+  <div className="flex flex-wrap justify-center gap-3 md:gap-4">
+    {prompts.map((option, i) => {
+      const Icon = resolvePromptIcon(option);
+      return (
+        <div
+          key={`${option.label}-${i}`}
+          className="flex flex-col items-center justify-center gap-2 w-24 h-24 md:w-32 md:h-32 p-2 rounded-2xl bg-white text-slate-900 shadow-lg"
+        >
+          <Icon className="w-10 h-10 md:w-12 md:h-12 text-blue-600" strokeWidth={1.5} />
+          <span className="text-xs md:text-sm font-semibold leading-tight text-center">{option.label}</span>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default PromptCards;
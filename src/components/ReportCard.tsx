@@ -1,18 +1,24 @@
-import React from 'react';
-import type { FullReport, EvaluationResult } from '../types';
-import { CheckCircle2, XCircle, Lightbulb } from 'lucide-react';
-import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import React, { useState, useEffect, useRef } from 'react';
+import type { AnswerFeedback, FullReport, EvaluationResult, DailyPlan, DialogueTurn, SessionData, StudentSessionData, PronunciationFinding, Seat } from '../types';
+import { CheckCircle2, XCircle, Lightbulb, MessageSquareText, Bot, ChevronDown, PenLine, Play, Pause, Ear, Gauge } from 'lucide-react';
+import { stopAllAudio } from '../services/geminiService';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, Legend } from 'recharts';
+import { MARKING_CRITERIA } from '../data/markingCriteria';
+import { computeSpeechMetrics, type SpeechMetrics } from '../services/speechMetrics';
+import { getAskedSeats, seatKey } from '../services/turnOrder';
 
 interface ReportCardProps {
   report: FullReport;
   onRestart: () => void;
+  plan: DailyPlan;
+  sessionData: SessionData;
+  savedAt?: number; // set when reopened from history
+  backLabel?: string;
 }
 
-const ScoreChart = ({ scoreA, scoreB }: { scoreA: number, scoreB: number }) => {
-    const data = [
-        { name: 'Tom', score: scoreA },
-        { name: 'Bella', score: scoreB },
-    ];
+const SEAT_COLORS = { A: '#3b82f6', B: '#8b5cf6' };
+
+const ScoreChart = ({ data }: { data: { name: string, score: number, color: string }[] }) => {
     return (
         <div className="h-64 w-full mt-4">
              <ResponsiveContainer width="100%" height="100%">
@@ -21,8 +27,8 @@ const ScoreChart = ({ scoreA, scoreB }: { scoreA: number, scoreB: number }) => {
                     <YAxis domain={[0, 5]} />
                     <Tooltip cursor={{fill: 'transparent'}} />
                     <Bar dataKey="score" radius={[8, 8, 0, 0]}>
-                        {data.map((_, index) => (
-                            <Cell key={`cell-${index}`} fill={index === 0 ? '#3b82f6' : '#8b5cf6'} />
+                        {data.map((entry, index) => (
+                            <Cell key={`cell-${index}`} fill={entry.color} />
                         ))}
                     </Bar>
                 </BarChart>
@@ -31,6 +37,45 @@ const ScoreChart = ({ scoreA, scoreB }: { scoreA: number, scoreB: number }) => {
     );
 };
 
+type ScoredSeat = { seat: Seat, name: string, result: EvaluationResult, color: string };
+
+// One group of bars per criterion, one bar per scored learner; keyed by seat, as two learners can share a name
+const CriteriaChart = ({ seats }: { seats: ScoredSeat[] }) => {
+    const data = MARKING_CRITERIA.map(c => ({
+        criterion: c.shortLabel,
+        ...Object.fromEntries(seats.map(s => [s.seat, s.result.criteria?.[c.id]?.band ?? 0])),
+    }));
+    return (
+        <div className="h-64 w-full mt-4">
+             <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={data}>
+                    <XAxis dataKey="criterion" tick={{ fontSize: 12 }} />
+                    <YAxis domain={[0, 5]} />
+                    <Tooltip cursor={{fill: 'transparent'}} />
+                    <Legend />
+                    {seats.map(s => (
+                        <Bar key={s.seat} dataKey={s.seat} name={s.name} fill={s.color} radius={[6, 6, 0, 0]} />
+                    ))}
+                </BarChart>
+            </ResponsiveContainer>
+        </div>
+    );
+};
+
+const CriteriaList = ({ criteria }: { criteria: NonNullable<EvaluationResult['criteria']> }) => (
+  <div className="mb-6 space-y-2">
+    {MARKING_CRITERIA.map(c => (
+      <div key={c.id} className="bg-white/70 rounded-lg px-3 py-2 border border-white">
+        <div className="flex justify-between items-center">
+          <span className="text-sm font-semibold text-gray-800">{c.label}</span>
+          <span className="text-sm font-black">{criteria[c.id]?.band ?? "-"}/5</span>
+        </div>
+        <p className="text-xs text-gray-600 mt-1">{criteria[c.id]?.justification}</p>
+      </div>
+    ))}
+  </div>
+);
+
 const StudentResult = ({ name, data, colorClass }: { name: string, data: EvaluationResult, colorClass: string }) => (
   <div className={`p-6 rounded-2xl border ${colorClass} bg-opacity-50`}>
     <div className="flex justify-between items-center mb-4">
@@ -43,6 +88,8 @@ const StudentResult = ({ name, data, colorClass }: { name: string, data: Evaluat
     
     <p className="text-gray-700 italic mb-6">"{data.feedback}"</p>
 
+    {data.criteria && <CriteriaList criteria={data.criteria} />}
+
     <div className="space-y-4">
       <div>
         <h4 className="flex items-center gap-2 font-semibold text-green-700 mb-2">
@@ -74,34 +121,346 @@ const StudentResult = ({ name, data, colorClass }: { name: string, data: Evaluat
   </div>
 );
 
-const ReportCard: React.FC<ReportCardProps> = ({ report, onRestart }) => {
+// The AI partner is not scored; its turns are shown as context for the learner's interaction
+const PartnerContext = ({ plan, partner }: { plan: DailyPlan, partner: StudentSessionData }) => (
+  <div className="p-6 rounded-2xl border border-emerald-200 bg-emerald-50 bg-opacity-50">
+    <div className="flex justify-between items-center mb-4">
+      <h3 className="text-xl font-bold">{partner.student.name}</h3>
+      <span className="flex items-center gap-1 text-xs font-bold text-emerald-700 px-2 py-1 bg-white rounded-full">
+        <Bot className="w-3 h-3" /> AI Partner · not scored
+      </span>
+    </div>
+    <p className="text-gray-700 italic mb-4">These are the partner's turns, for context only.</p>
+    <ul className="space-y-2 text-sm text-gray-700">
+      {plan.questions.filter(q => partner.answers[q.id]).map(q => (
+        <li key={q.id}>
+          <span className="font-semibold text-gray-500">{q.text} </span>
+          {partner.answers[q.id]}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const SeatResult = ({ data, seat, plan, colorClass }: { data: EvaluationResult | null, seat: StudentSessionData, plan: DailyPlan, colorClass: string }) =>
+  data ? <StudentResult name={seat.student.name} data={data} colorClass={colorClass} /> : <PartnerContext plan={plan} partner={seat} />;
+
+// Plays back the learner's own recording of an answer
+const RecordingButton = ({ audio }: { audio: Blob }) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const playerRef = useRef<{ element: HTMLAudioElement, url: string } | null>(null);
+
+  const release = () => {
+    if (!playerRef.current) return;
+    playerRef.current.element.pause();
+    URL.revokeObjectURL(playerRef.current.url);
+    playerRef.current = null;
+  };
+
+  useEffect(() => release, []);
+
+  const toggle = async () => {
+    if (isPlaying) {
+      release();
+      setIsPlaying(false);
+      return;
+    }
+    stopAllAudio();
+    release();
+    const url = URL.createObjectURL(audio);
+    const element = new Audio(url);
+    element.onended = () => {
+      release();
+      setIsPlaying(false);
+    };
+    playerRef.current = { element, url };
+    try {
+      await element.play();
+      setIsPlaying(true);
+    } catch (err) {
+      console.warn("Recording playback failed", err);
+      release();
+    }
+  };
+
+  return (
+    <button
+      onClick={toggle}
+      className="inline-flex items-center gap-1 px-2 py-1 mr-2 rounded-full bg-gray-100 hover:bg-gray-200 text-xs font-semibold text-gray-700 align-middle"
+      title={isPlaying ? "Stop recording" : "Play recording"}
+    >
+      {isPlaying ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />} {isPlaying ? "Stop" : "Listen"}
+    </button>
+  );
+};
+
+const INTELLIGIBILITY_STYLES: Record<PronunciationFinding['intelligibility'], string> = {
+  'clear': 'bg-green-100 text-green-700',
+  'mostly clear': 'bg-amber-100 text-amber-700',
+  'hard to understand': 'bg-red-100 text-red-700',
+};
+
+const PronunciationNotes = ({ finding }: { finding: PronunciationFinding }) => (
+  <div className="bg-sky-50 rounded-lg px-3 py-2 space-y-1">
+    <p className="flex items-center gap-2 font-semibold text-sky-800">
+      <Ear className="w-4 h-4" /> Pronunciation
+      <span className={`text-xs px-2 py-0.5 rounded-full ${INTELLIGIBILITY_STYLES[finding.intelligibility] ?? 'bg-gray-100 text-gray-700'}`}>{finding.intelligibility}</span>
+    </p>
+    {finding.mispronouncedWords.length > 0 && (
+      <div className="flex flex-wrap gap-1">
+        {finding.mispronouncedWords.map((word, i) => (
+          <span key={i} className="text-xs px-2 py-0.5 rounded bg-white border border-sky-200 text-sky-900">{word}</span>
+        ))}
+      </div>
+    )}
+    {finding.stress && <p className="text-sky-900">{finding.stress}</p>}
+  </div>
+);
+
+// A Part 2 question discussed turn by turn, in speaking order
+const ConversationReview = ({ sessionData, dialogue }: { sessionData: SessionData, dialogue: DialogueTurn[] }) => (
+  <ol className="md:col-span-2 space-y-2 text-sm">
+    {dialogue.map((turn, i) => {
+      const seat = sessionData[seatKey(turn.seat)];
+      return (
+        <li key={i} className={`max-w-[85%] rounded-2xl px-4 py-2 ${turn.seat === 'A' ? 'bg-blue-50' : 'bg-purple-50 ml-auto'}`}>
+          <span className={`font-bold ${turn.seat === 'A' ? 'text-blue-700' : 'text-purple-700'}`}>{seat.student.name}{seat.student.isAi ? " (AI partner)" : ""}: </span>
+          {turn.audio && <RecordingButton audio={turn.audio} />}
+          {turn.text || <span className="italic text-gray-400">No answer</span>}
+        </li>
+      );
+    })}
+  </ol>
+);
+
+const AnswerFeedbackNotes = ({ feedback }: { feedback: AnswerFeedback }) => (
+  <>
+    <p className="flex gap-2 text-green-800 bg-green-50 rounded-lg px-3 py-2">
+      <PenLine className="w-4 h-4 flex-shrink-0 mt-0.5" /> {feedback.corrected}
+    </p>
+    {feedback.errors.length > 0 && (
+      <ul className="list-disc list-inside text-red-700 space-y-1 pl-2">
+        {feedback.errors.map((err, i) => <li key={i}>{err}</li>)}
+      </ul>
+    )}
+    {feedback.pronunciation && <PronunciationNotes finding={feedback.pronunciation} />}
+    <p className="flex gap-2 text-amber-700">
+      <Lightbulb className="w-4 h-4 flex-shrink-0 mt-0.5" /> {feedback.tip}
+    </p>
+  </>
+);
+
+// `inConversation`: the learner's words are in the ConversationReview above, so only the feedback is shown
+const AnswerReview = ({ seat, result, questionId, nameClass, asked, inConversation = false }: { seat: StudentSessionData, result: EvaluationResult | null, questionId: string, nameClass: string, asked: boolean, inConversation?: boolean }) => {
+  if (inConversation) {
+    const feedback = result?.answerFeedback?.find(f => f.questionId === questionId);
+    if (!feedback) return null;
+    return (
+      <div className="text-sm space-y-2">
+        <p className={`font-bold ${nameClass}`}>{seat.student.name}'s turns</p>
+        <AnswerFeedbackNotes feedback={feedback} />
+      </div>
+    );
+  }
+  if (!asked) {
+    return (
+      <p className="text-sm text-gray-400 italic">
+        <span className={`font-bold not-italic ${nameClass}`}>{seat.student.name}: </span>Not asked this question
+      </p>
+    );
+  }
+  const transcript = seat.answers[questionId];
+  const recording = seat.audio?.[questionId];
+  const followUp = seat.followUps?.[questionId];
+  const feedback = result?.answerFeedback?.find(f => f.questionId === questionId);
+  return (
+    <div className="text-sm space-y-2">
+      <p className="text-gray-700">
+        <span className={`font-bold ${nameClass}`}>{seat.student.name}{seat.student.isAi ? " (AI partner)" : ""}: </span>
+        {recording && <RecordingButton audio={recording} />}
+        {transcript || <span className="italic text-gray-400">No answer</span>}
+      </p>
+      {followUp && (
+        <div className="pl-3 border-l-2 border-amber-200 space-y-1">
+          <p className="text-amber-800 italic">Examiner: "{followUp.prompt}"</p>
+          <p className="text-gray-700">
+            {followUp.audio && <RecordingButton audio={followUp.audio} />}
+            {followUp.answer || <span className="italic text-gray-400">No answer</span>}
+          </p>
+        </div>
+      )}
+      {(transcript || followUp?.answer) && feedback && <AnswerFeedbackNotes feedback={feedback} />}
+    </div>
+  );
+};
+
+const percent = (n: number) => `${Math.round(n * 100)}%`;
+
+const METRIC_ROWS: { label: string, hint: string, value: (m: SpeechMetrics) => React.ReactNode }[] = [
+  { label: "Words per answer", hint: "Aim for 8 or more", value: m => m.wordsPerAnswer.toFixed(1) },
+  { label: "Different words", hint: "Share of words that are not repeats", value: m => percent(m.uniqueWordRatio) },
+  { label: "Words per sentence", hint: "Longer sentences show linking", value: m => m.averageSentenceLength.toFixed(1) },
+  {
+    label: "Filler words",
+    hint: "um, er, like...",
+    value: m => (m.fillerCount > 0
+      ? `${m.fillerCount} (${Object.entries(m.fillers).map(([word, n]) => `${word} ×${n}`).join(', ')})`
+      : "0"),
+  },
+  { label: "One-word answers", hint: "Answers with a single word or less", value: m => `${m.oneWordAnswers} of ${m.answerCount}` },
+  { label: "A2 Key vocabulary", hint: "Different words found in the A2 Key list", value: m => percent(m.a2Coverage) },
+];
+
+// Measured straight from the transcripts, as a check on the AI's marks
+const SpeechMetricsTable = ({ sessionData, report }: { sessionData: SessionData, report: FullReport }) => {
+  const seats = ([['A', sessionData.studentA, report.studentA, 'text-blue-700'], ['B', sessionData.studentB, report.studentB, 'text-purple-700']] as const)
+    .filter(([, seat]) => !seat.student.isAi)
+    .map(([seatId, seat, result, nameClass]) => ({ seat, result, nameClass, metrics: computeSpeechMetrics(sessionData, seatId) }));
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-200 mb-8">
+      <h3 className="flex items-center gap-2 text-lg font-bold text-gray-800 mb-1">
+        <Gauge className="w-5 h-5" /> Speech Metrics
+      </h3>
+      <p className="text-sm text-gray-500 mb-4">Counted from the transcripts, without the AI.</p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-left">
+              <th className="py-2 pr-4 font-semibold text-gray-500">Metric</th>
+              {seats.map(({ seat, nameClass }) => (
+                <th key={seat.student.id} className={`py-2 px-4 font-bold ${nameClass}`}>{seat.student.name}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            <tr>
+              <td className="py-2 pr-4 text-gray-800">AI score<span className="block text-xs text-gray-400">For comparison</span></td>
+              {seats.map(({ seat, result }) => (
+                <td key={seat.student.id} className="py-2 px-4 font-black text-gray-900">{result ? `${result.score}/5` : "-"}</td>
+              ))}
+            </tr>
+            {METRIC_ROWS.map(row => (
+              <tr key={row.label}>
+                <td className="py-2 pr-4 text-gray-800">{row.label}<span className="block text-xs text-gray-400">{row.hint}</span></td>
+                {seats.map(({ seat, metrics }) => (
+                  <td key={seat.student.id} className="py-2 px-4 text-gray-700">{metrics.answerCount > 0 ? row.value(metrics) : "-"}</td>
+                ))}
+              </tr>
+            ))}
+            <tr>
+              <td className="py-2 pr-4 text-gray-800 align-top">Beyond the A2 list<span className="block text-xs text-gray-400">Ambitious words or recognition errors</span></td>
+              {seats.map(({ seat, metrics }) => (
+                <td key={seat.student.id} className="py-2 px-4">
+                  <div className="flex flex-wrap gap-1">
+                    {metrics.beyondA2Words.length > 0
+                      ? metrics.beyondA2Words.map(word => (
+                          <span key={word} className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-700">{word}</span>
+                        ))
+                      : <span className="text-gray-400">-</span>}
+                  </div>
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+// Walks through the session question by question
+const AnswerAccordion = ({ plan, sessionData, report }: { plan: DailyPlan, sessionData: SessionData, report: FullReport }) => {
+  const [openId, setOpenId] = useState<string | null>(plan.questions[0]?.id ?? null);
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-200 mb-8">
+      <h3 className="flex items-center gap-2 text-lg font-bold text-gray-800 mb-4">
+        <MessageSquareText className="w-5 h-5" /> Answer by Answer
+      </h3>
+      <ol className="divide-y divide-gray-100">
+        {plan.questions.map((q, i) => {
+          const isOpen = openId === q.id;
+          const asked = getAskedSeats(sessionData, q);
+          const askedNames = asked.map(seat => sessionData[seatKey(seat)].student.name);
+          const dialogue = sessionData.dialogues?.[q.id];
+          return (
+            <li key={q.id}>
+              <button
+                onClick={() => setOpenId(isOpen ? null : q.id)}
+                className="w-full flex items-center gap-3 py-3 text-left"
+              >
+                <span className="text-xs font-bold text-gray-500 bg-gray-100 px-2 py-0.5 rounded-full">Q{i + 1}</span>
+                <span className="flex-1 font-semibold text-gray-800">{q.text}</span>
+                <span className="text-xs text-gray-500 whitespace-nowrap">{dialogue ? `Conversation · ${dialogue.length} turns` : askedNames.join(' → ')}</span>
+                <ChevronDown className={`w-5 h-5 text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+              </button>
+              {isOpen && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pb-4">
+                  {dialogue && <ConversationReview sessionData={sessionData} dialogue={dialogue} />}
+                  <AnswerReview seat={sessionData.studentA} result={report.studentA} questionId={q.id} nameClass="text-blue-700" asked={asked.includes('A')} inConversation={!!dialogue} />
+                  <AnswerReview seat={sessionData.studentB} result={report.studentB} questionId={q.id} nameClass="text-purple-700" asked={asked.includes('B')} inConversation={!!dialogue} />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+const ReportCard: React.FC<ReportCardProps> = ({ report, onRestart, plan, sessionData, savedAt, backLabel = "Back to Dashboard" }) => {
+  const scoredSeats: ScoredSeat[] = [
+    { seat: 'A' as const, result: report.studentA, name: sessionData.studentA.student.name, color: SEAT_COLORS.A },
+    { seat: 'B' as const, result: report.studentB, name: sessionData.studentB.student.name, color: SEAT_COLORS.B },
+  ].flatMap(({ seat, result, name, color }) => (result ? [{ seat, name, result, color }] : []));
+  const scores = scoredSeats.map(s => ({ name: s.name, score: s.result.score, color: s.color }));
+  const hasCriteria = scoredSeats.some(s => s.result.criteria);
+
   return (
     <div className="max-w-5xl mx-auto p-6 animate-fade-in">
       <div className="text-center mb-8">
         <h2 className="text-3xl font-bold text-gray-800">Session Report</h2>
-        <p className="text-gray-500 mt-2">Here is how you performed on today's KET session.</p>
+        <p className="text-gray-500 mt-2">
+          {savedAt
+            ? `Saved session from ${new Date(savedAt).toLocaleString()}.`
+            : "Here is how you performed on today's KET session."}
+        </p>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
-        <StudentResult name="Tom" data={report.studentA} colorClass="border-blue-200 bg-blue-50" />
-        <StudentResult name="Bella" data={report.studentB} colorClass="border-purple-200 bg-purple-50" />
+        <SeatResult data={report.studentA} seat={sessionData.studentA} plan={plan} colorClass="border-blue-200 bg-blue-50" />
+        <SeatResult data={report.studentB} seat={sessionData.studentB} plan={plan} colorClass="border-purple-200 bg-purple-50" />
       </div>
 
       <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-200 mb-8">
         <h3 className="text-lg font-bold text-gray-800 mb-2">General Feedback</h3>
         <p className="text-gray-600 leading-relaxed">{report.generalFeedback}</p>
-        <div className="mt-6 border-t pt-6">
-            <h4 className="text-sm font-bold text-gray-500 uppercase tracking-wide mb-4 text-center">Score Comparison</h4>
-            <ScoreChart scoreA={report.studentA.score} scoreB={report.studentB.score} />
+        <div className={`mt-6 border-t pt-6 grid grid-cols-1 gap-6 ${hasCriteria ? 'md:grid-cols-2' : ''}`}>
+            <div>
+                <h4 className="text-sm font-bold text-gray-500 uppercase tracking-wide mb-4 text-center">{scores.length > 1 ? "Score Comparison" : "Score"}</h4>
+                <ScoreChart data={scores} />
+            </div>
+            {hasCriteria && (
+                <div>
+                    <h4 className="text-sm font-bold text-gray-500 uppercase tracking-wide mb-4 text-center">Marking Criteria</h4>
+                    <CriteriaChart seats={scoredSeats} />
+                </div>
+            )}
         </div>
       </div>
 
+      <SpeechMetricsTable sessionData={sessionData} report={report} />
+
+      <AnswerAccordion plan={plan} sessionData={sessionData} report={report} />
+
       <div className="flex justify-center pb-12">
         <button
           onClick={onRestart}
           className="px-8 py-3 bg-gray-900 text-white rounded-full font-bold hover:bg-black transition-colors shadow-lg"
         >
-          Back to Dashboard
+          {backLabel}
         </button>
       </div>
     </div>
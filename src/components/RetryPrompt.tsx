@@ -0,0 +1,64 @@
+import React from 'react';
+import { AlertTriangle, RefreshCw, WifiOff, Clock, KeyRound } from 'lucide-react';
+import type { AiErrorCategory, AiRequestError } from '../services/request';
+
+interface RetryPromptProps {
+  error: AiRequestError;
+  action: string; // what failed, e.g. "load the Day 5 questions"
+  onRetry: () => void;
+  onDismiss: () => void;
+  dismissLabel?: string;
+}
+
+const MESSAGES: Record<AiErrorCategory, { title: string, hint: string }> = {
+  offline: { title: "No internet connection", hint: "Check the Wi-Fi or mobile data, then try again." },
+  timeout: { title: "The examiner is taking too long", hint: "The AI service did not answer in time. It is often busy for a moment, so try again." },
+  rate_limit: { title: "Too many requests", hint: "The AI service's request limit was reached. Wait a minute, then try again." },
+  auth: { title: "The API key was not accepted", hint: "The key is missing or invalid. Ask your teacher to check the app's API key." },
+  server: { title: "The AI service had a problem", hint: "This is usually temporary. Try again in a moment." },
+  invalid_response: { title: "The AI gave an unusable answer", hint: "Trying again usually fixes this." },
+  bad_request: { title: "The request was refused", hint: "The AI service could not handle this request. If trying again doesn't help, tell your teacher." },
+  cancelled: { title: "Cancelled", hint: "The request was stopped before it finished." },
+  unknown: { title: "Something went wrong", hint: "Try again. If it keeps happening, check the connection." },
+};
+
+const ICONS: Partial<Record<AiErrorCategory, typeof AlertTriangle>> = {
+  offline: WifiOff,
+  timeout: Clock,
+  rate_limit: Clock,
+  auth: KeyRound,
+};
+
+// Says what went wrong in plain words and offers a retry where one can help
+const RetryPrompt: React.FC<RetryPromptProps> = ({ error, action, onRetry, onDismiss, dismissLabel = "Cancel" }) => {
+  const { title, hint } = MESSAGES[error.category];
+  const Icon = ICONS[error.category] ?? AlertTriangle;
+  // Retrying with a rejected key fails the same way every time
+  const canRetry = error.category !== 'auth';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onDismiss}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md p-6 space-y-4" role="alertdialog" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start gap-3">
+          <div className="p-2 rounded-full bg-red-50 text-red-600"><Icon className="w-5 h-5" /></div>
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">{title}</h2>
+            <p className="text-sm text-gray-600 mt-1">We couldn't {action}. {hint}</p>
+          </div>
+        </div>
+        <div className="flex justify-end gap-2">
+          <button onClick={onDismiss} className="px-4 py-2 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-100">
+            {dismissLabel}
+          </button>
+          {canRetry && (
+            <button onClick={onRetry} className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold text-white bg-blue-600 hover:bg-blue-500">
+              <RefreshCw className="w-4 h-4" /> Try again
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RetryPrompt;
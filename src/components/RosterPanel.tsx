@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Users, UserPlus, Pencil, Trash2, Check, X, Bot } from 'lucide-react';
+import type { Roster, SessionMode } from '../types';
+import { addStudent, renameStudent, removeStudent, setPairSeat, setSessionMode, AI_PARTNER } from '../services/rosterStore';
+
+interface RosterPanelProps {
+  roster: Roster;
+  onChange: (roster: Roster) => void;
+}
+
+const RosterPanel: React.FC<RosterPanelProps> = ({ roster, onChange }) => {
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onChange(addStudent(roster, newName));
+    setNewName("");
+  };
+
+  const startEdit = (id: string, name: string) => {
+    setEditingId(id);
+    setEditName(name);
+  };
+
+  const commitEdit = () => {
+    if (editingId && editName.trim()) {
+      onChange(renameStudent(roster, editingId, editName));
+    }
+    setEditingId(null);
+  };
+
+  const seatSelect = (seatIndex: 0 | 1, label: string) => (
+    <label className="flex flex-col gap-1 text-xs font-semibold text-gray-500 uppercase tracking-wider">
+      {label}
+      <select
+        value={roster.pair[seatIndex]}
+        onChange={(e) => onChange(setPairSeat(roster, seatIndex, e.target.value))}
+        className="px-3 py-2 rounded-lg border border-gray-300 bg-white text-sm font-medium text-gray-900 normal-case tracking-normal"
+      >
+        {roster.students.map(s => (
+          <option key={s.id} value={s.id}>{s.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const modeButton = (mode: SessionMode, label: string) => (
+    <button
+      onClick={() => onChange(setSessionMode(roster, mode))}
+      className={`flex-1 px-3 py-2 text-sm font-semibold rounded-md transition-colors ${roster.mode === mode ? 'bg-white text-blue-700 shadow-sm' : 'text-gray-500 hover:text-gray-800'}`}
+    >
+      {label}
+    </button>
+  );
+
+  const isSolo = roster.mode === 'solo';
+  const hasEnoughLearners = roster.students.length >= (isSolo ? 1 : 2);
+
+  return (
+    <section className="bg-white border border-gray-200 rounded-2xl p-6 mb-10">
+      <h3 className="flex items-center gap-2 text-lg font-bold text-gray-900 mb-4">
+        <Users className="w-5 h-5 text-blue-600" /> Learners
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <ul className="space-y-2 mb-3">
+            {roster.students.map(s => (
+              <li key={s.id} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-50 border border-gray-100">
+                {editingId === s.id ? (
+                  <>
+                    <input
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') commitEdit(); if (e.key === 'Escape') setEditingId(null); }}
+                      className="flex-1 px-2 py-1 rounded border border-gray-300 text-sm"
+                      autoFocus
+                    />
+                    <button onClick={commitEdit} className="p-1 text-green-600 hover:text-green-700" title="Save"><Check className="w-4 h-4" /></button>
+                    <button onClick={() => setEditingId(null)} className="p-1 text-gray-400 hover:text-gray-600" title="Cancel"><X className="w-4 h-4" /></button>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-1 text-sm font-medium text-gray-800">{s.name}</span>
+                    <button onClick={() => startEdit(s.id, s.name)} className="p-1 text-gray-400 hover:text-blue-600" title="Rename"><Pencil className="w-4 h-4" /></button>
+                    <button onClick={() => onChange(removeStudent(roster, s.id))} className="p-1 text-gray-400 hover:text-red-600" title="Remove"><Trash2 className="w-4 h-4" /></button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+          <form onSubmit={handleAdd} className="flex gap-2">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New learner's name"
+              className="flex-1 px-3 py-2 rounded-lg border border-gray-300 text-sm"
+            />
+            <button type="submit" disabled={!newName.trim()} className="flex items-center gap-1 px-3 py-2 rounded-lg bg-blue-600 text-white text-sm font-semibold hover:bg-blue-700 disabled:opacity-50">
+              <UserPlus className="w-4 h-4" /> Add
+            </button>
+          </form>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <div className="flex gap-1 p-1 bg-gray-100 rounded-lg">
+            {modeButton('pair', "Pair")}
+            {modeButton('solo', "Solo with AI partner")}
+          </div>
+          <p className="text-sm text-gray-600">Who is sitting today's session?</p>
+          {!hasEnoughLearners ? (
+            <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+              {isSolo ? "Add a learner to start a session." : "Add at least two learners to start a session."}
+            </p>
+          ) : isSolo ? (
+            <div className="grid grid-cols-2 gap-3">
+              {seatSelect(0, "Learner")}
+              <div className="flex flex-col gap-1 text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                Partner
+                <span className="flex items-center gap-1 px-3 py-2 rounded-lg border border-emerald-200 bg-emerald-50 text-sm font-medium text-emerald-800 normal-case tracking-normal">
+                  <Bot className="w-4 h-4" /> {AI_PARTNER.name} (AI)
+                </span>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              {seatSelect(0, "Student A")}
+              {seatSelect(1, "Student B")}
+            </div>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default RosterPanel;
@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, History, Trash2, ChevronRight, Loader2 } from 'lucide-react';
+import type { SessionRecord } from '../types';
+import { listSessions, deleteSession } from '../services/historyStore';
+import ReportCard from './ReportCard';
+
+// e.g. "Tom 3/5 · Bella 4/5"; the AI partner has no score
+const formatScores = (record: SessionRecord) =>
+  ([[record.sessionData.studentA, record.report.studentA], [record.sessionData.studentB, record.report.studentB]] as const)
+    .flatMap(([seat, result]) => (result ? [`${seat.student.name} ${result.score}/5`] : []))
+    .join(' · ');
+
+interface SessionHistoryProps {
+  onBack: () => void;
+}
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({ onBack }) => {
+  const [records, setRecords] = useState<SessionRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [selected, setSelected] = useState<SessionRecord | null>(null);
+
+  useEffect(() => {
+    listSessions()
+      .then(setRecords)
+      .catch(err => {
+        console.error("Failed to load history", err);
+        setErrorMsg("Could not open saved sessions on this device.");
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteSession(id);
+      setRecords(prev => prev.filter(r => r.id !== id));
+    } catch (err) {
+      console.error("Failed to delete session", err);
+    }
+  };
+
+  if (selected) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <ReportCard
+          report={selected.report}
+          plan={selected.plan}
+          sessionData={selected.sessionData}
+          savedAt={selected.timestamp}
+          backLabel="Back to History"
+          onRestart={() => setSelected(null)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 font-sans">
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-20">
+        <div className="max-w-5xl mx-auto px-4 py-4 flex items-center gap-3">
+          <button onClick={onBack} className="p-2 rounded-lg hover:bg-gray-100 text-gray-600" title="Back to Dashboard">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+            <History className="w-5 h-5 text-blue-600" /> Session History
+          </h1>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 py-8">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+          </div>
+        ) : errorMsg ? (
+          <p className="text-center text-red-600">{errorMsg}</p>
+        ) : records.length === 0 ? (
+          <p className="text-center text-gray-500">No finished sessions yet. Complete a day to see it here.</p>
+        ) : (
+          <ul className="space-y-3">
+            {records.map(record => (
+              <li key={record.id} className="flex items-center gap-2 bg-white border border-gray-200 rounded-xl hover:border-blue-500 hover:shadow-md transition-all">
+                <button onClick={() => setSelected(record)} className="flex-1 flex items-center gap-4 p-4 text-left">
+                  <span className="bg-blue-100 text-blue-700 text-xs font-bold px-2 py-1 rounded-full whitespace-nowrap">Day {record.day}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-gray-900 truncate">{record.topic}</p>
+                    <p className="text-xs text-gray-500">{new Date(record.timestamp).toLocaleString()}</p>
+                  </div>
+                  <span className="text-sm text-gray-600 whitespace-nowrap">
+                    {formatScores(record)}
+                  </span>
+                  <ChevronRight className="w-5 h-5 text-gray-400" />
+                </button>
+                <button onClick={() => handleDelete(record.id)} className="p-4 text-gray-400 hover:text-red-600" title="Delete session">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SessionHistory;
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { Settings, X, Timer, MessageCircleQuestion, MessagesSquare, Volume2, Mic } from 'lucide-react';
+import type { AppSettings, ConversationSettings, FollowUpSettings, QuestionPart, RecognitionSettings, SpeakingRate, TimingSettings, VoiceSettings } from '../types';
+import { getProviderVoices, playTextToSpeech } from '../services/geminiService';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const PARTS: QuestionPart[] = ['Part 1', 'Part 2'];
+
+const ACCENTS = [
+  { tag: 'en-GB', label: "British" },
+  { tag: 'en-US', label: "American" },
+  { tag: 'en-AU', label: "Australian" },
+  { tag: 'en-IE', label: "Irish" },
+  { tag: 'en-IN', label: "Indian" },
+];
+
+const RATES: { rate: SpeakingRate, label: string }[] = [
+  { rate: 'normal', label: "Normal" },
+  { rate: 'slow', label: "Slow" },
+  { rate: 'very slow', label: "Very slow (beginners)" },
+];
+
+const SAMPLE_QUESTION = "Hello. What's your name? And where do you live?";
+
+const SelectField = ({ label, value, options, onChange }: {
+  label: string, value: string, options: { value: string, label: string }[], onChange: (value: string) => void
+}) => (
+  <label className="flex items-center justify-between gap-3 text-sm text-gray-700">
+    {label}
+    <select value={value} onChange={(e) => onChange(e.target.value)} className="px-2 py-1 rounded-lg border border-gray-300 text-sm">
+      {options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+    </select>
+  </label>
+);
+
+// Clamped only when the learner leaves the field, so "45" can be typed past a
+// minimum of 10; an empty or unreadable entry puts the saved value back.
+const NumberField = ({ label, value, min, max, suffix, disabled, onChange }: {
+  label: string, value: number, min: number, max: number, suffix: string, disabled?: boolean, onChange: (value: number) => void
+}) => {
+  const [draft, setDraft] = useState<string | null>(null); // null while not editing
+
+  const commit = () => {
+    const next = Number(draft);
+    if (draft !== null && draft.trim() !== '' && Number.isFinite(next)) onChange(Math.max(min, Math.min(max, next)));
+    setDraft(null);
+  };
+
+  return (
+    <label className="flex items-center justify-between gap-3 text-sm text-gray-700">
+      {label}
+      <span className="flex items-center gap-2">
+        <input
+          type="number"
+          min={min}
+          max={max}
+          value={draft ?? value}
+          disabled={disabled}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+          }}
+          className="w-20 px-2 py-1 rounded-lg border border-gray-300 text-right disabled:bg-gray-100 disabled:text-gray-400"
+        />
+        <span className="w-8 text-gray-500">{suffix}</span>
+      </span>
+    </label>
+  );
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const timing = settings.timing;
+  const setTiming = (patch: Partial<TimingSettings>) => onChange({ ...settings, timing: { ...timing, ...patch } });
+  const followUps = settings.followUps;
+  const setFollowUps = (patch: Partial<FollowUpSettings>) => onChange({ ...settings, followUps: { ...followUps, ...patch } });
+  const conversation = settings.conversation;
+  const setConversation = (patch: Partial<ConversationSettings>) => onChange({ ...settings, conversation: { ...conversation, ...patch } });
+  const voice = settings.voice;
+  const setVoice = (patch: Partial<VoiceSettings>) => onChange({ ...settings, voice: { ...voice, ...patch } });
+  const recognition = settings.recognition;
+  const setRecognition = (patch: Partial<RecognitionSettings>) => onChange({ ...settings, recognition: { ...recognition, ...patch } });
+  const providerVoices = getProviderVoices();
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="flex items-center gap-2 text-lg font-bold text-gray-900">
+            <Settings className="w-5 h-5 text-blue-600" /> Settings
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-700" title="Close"><X className="w-5 h-5" /></button>
+        </div>
+
+        <section className="px-6 py-5 space-y-3">
+          <h3 className="flex items-center gap-2 font-semibold text-gray-900"><Timer className="w-4 h-4" /> Timing</h3>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={timing.enabled} onChange={(e) => setTiming({ enabled: e.target.checked })} />
+            Show countdowns during the test
+          </label>
+          {PARTS.map(part => (
+            <div key={part} className="space-y-2 pl-6">
+              <NumberField
+                label={`${part}: time per answer`}
+                value={timing.turnSeconds[part]}
+                min={10} max={300} suffix="sec"
+                disabled={!timing.enabled}
+                onChange={(value) => setTiming({ turnSeconds: { ...timing.turnSeconds, [part]: value } })}
+              />
+              <NumberField
+                label={`${part}: whole part`}
+                value={timing.partMinutes[part]}
+                min={1} max={30} suffix="min"
+                disabled={!timing.enabled}
+                onChange={(value) => setTiming({ partMinutes: { ...timing.partMinutes, [part]: value } })}
+              />
+            </div>
+          ))}
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={timing.autoAdvance} disabled={!timing.enabled} onChange={(e) => setTiming({ autoAdvance: e.target.checked })} />
+            Move on automatically when time runs out
+          </label>
+        </section>
+
+        <section className="px-6 py-5 space-y-3 border-t border-gray-100">
+          <h3 className="flex items-center gap-2 font-semibold text-gray-900"><Volume2 className="w-4 h-4" /> Examiner voice</h3>
+          {providerVoices.length > 0 ? (
+            <SelectField
+              label="Voice"
+              value={providerVoices.includes(voice.voice) ? voice.voice : providerVoices[0]}
+              options={providerVoices.map(name => ({ value: name, label: name }))}
+              onChange={(value) => setVoice({ voice: value })}
+            />
+          ) : (
+            <p className="text-sm text-gray-500">This provider has no voice of its own, so the browser's voice is used.</p>
+          )}
+          <SelectField
+            label="Browser voice accent"
+            value={voice.accent}
+            options={ACCENTS.map(a => ({ value: a.tag, label: a.label }))}
+            onChange={(value) => setVoice({ accent: value })}
+          />
+          <SelectField
+            label="Speaking speed"
+            value={voice.rate}
+            options={RATES.map(r => ({ value: r.rate, label: r.label }))}
+            onChange={(value) => setVoice({ rate: value as SpeakingRate })}
+          />
+          <button
+            onClick={() => playTextToSpeech(SAMPLE_QUESTION, voice).catch(e => console.error("Voice preview error", e))}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <Volume2 className="w-4 h-4" /> Listen
+          </button>
+        </section>
+
+        <section className="px-6 py-5 space-y-3 border-t border-gray-100">
+          <h3 className="flex items-center gap-2 font-semibold text-gray-900"><Mic className="w-4 h-4" /> Speech recognition</h3>
+          <SelectField
+            label="Listen for"
+            value={recognition.lang}
+            options={ACCENTS.map(a => ({ value: a.tag, label: `${a.label} English` }))}
+            onChange={(value) => setRecognition({ lang: value })}
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={recognition.continuous} onChange={(e) => setRecognition({ continuous: e.target.checked })} />
+            Keep listening through pauses until Stop is pressed
+          </label>
+          <NumberField
+            label="Alternative readings kept"
+            value={recognition.maxAlternatives}
+            min={1} max={5} suffix=""
+            onChange={(value) => setRecognition({ maxAlternatives: value })}
+          />
+        </section>
+
+        <section className="px-6 py-5 space-y-3 border-t border-gray-100">
+          <h3 className="flex items-center gap-2 font-semibold text-gray-900"><MessageCircleQuestion className="w-4 h-4" /> Follow-up questions</h3>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={followUps.enabled} onChange={(e) => setFollowUps({ enabled: e.target.checked })} />
+            Ask "Why?" or "Tell me more" after a short answer
+          </label>
+          <div className="pl-6">
+            <NumberField
+              label="Answers shorter than"
+              value={followUps.minWords}
+              min={2} max={30} suffix="words"
+              disabled={!followUps.enabled}
+              onChange={(value) => setFollowUps({ minWords: value })}
+            />
+          </div>
+        </section>
+
+        <section className="px-6 py-5 space-y-3 border-t border-gray-100">
+          <h3 className="flex items-center gap-2 font-semibold text-gray-900"><MessagesSquare className="w-4 h-4" /> Part 2 conversation</h3>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={conversation.enabled} onChange={(e) => setConversation({ enabled: e.target.checked })} />
+            Learners discuss shared Part 2 questions turn by turn
+          </label>
+          <div className="space-y-2 pl-6">
+            <NumberField
+              label="End after"
+              value={conversation.maxTurns}
+              min={2} max={20} suffix="turns"
+              disabled={!conversation.enabled}
+              onChange={(value) => setConversation({ maxTurns: value })}
+            />
+            <NumberField
+              label="Or after"
+              value={conversation.minutes}
+              min={1} max={10} suffix="min"
+              disabled={!conversation.enabled}
+              onChange={(value) => setConversation({ minutes: value })}
+            />
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
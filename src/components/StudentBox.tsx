@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Mic, Square, AlertCircle, CheckCircle2, Keyboard, Mic2, Volume2, Send } from 'lucide-react';
-import type { IWindow } from '../types';
-import { stopAllAudio } from '../services/geminiService';
+import { Mic, Square, AlertCircle, CheckCircle2, Keyboard, Mic2, Volume2, Send, Bot, Loader2, ArrowRight, Timer } from 'lucide-react';
+import type { IWindow, RecognitionSegment, RecognitionSettings, SubmittedAnswer } from '../types';
+import { canTranscribeAudio, stopAllAudio, transcribeAudio } from '../services/geminiService';
+import { createTurnRecorder, isRecordingSupported, type TurnRecorder } from '../services/audioRecorder';
+import { formatClock } from '../services/clock';
 
 interface StudentBoxProps {
   name: string;
@@ -9,10 +11,38 @@ interface StudentBoxProps {
   isActive: boolean;
   hasAnswered: boolean;
   savedAnswer?: string;
-  onAnswerComplete: (text: string) => void;
+  onAnswerComplete: (answer: SubmittedAnswer) => void;
   disabled: boolean;
+  turnSeconds?: number; // countdown for this turn; no countdown when unset
+  endsAt?: number; // fixed end time (ms since epoch), e.g. of a whole conversation; wins over turnSeconds
+  autoSubmitOnTimeUp?: boolean;
+  // AI partner seat: shows the generated answer instead of a microphone
+  isAiPartner?: boolean;
+  onReplay?: () => void;
+  // The question is addressed to the other learner only
+  notAsked?: boolean;
+  recognitionSettings: RecognitionSettings;
 }
 
+type SpeechInput = 'browser' | 'model' | 'none';
+
+// How speech becomes text on this device: the browser's own recogniser, a
+// recording transcribed by the AI provider, or not at all (typing only)
+const detectSpeechInput = (): SpeechInput => {
+  try {
+    const ua = window.navigator.userAgent.toLowerCase();
+    const isIOS = /iphone|ipad|ipod/.test(ua);
+    const isSafari = isIOS && /safari/.test(ua) && !/crios|fxios|crmo|edgios/.test(ua);
+    const windowObj = window as unknown as IWindow;
+    // Strict iOS non-Safari check: their recogniser can't be relied on
+    const hasRecognizer = !(isIOS && !isSafari) && !!(windowObj.SpeechRecognition || windowObj.webkitSpeechRecognition);
+    if (hasRecognizer) return 'browser';
+    return isRecordingSupported() && canTranscribeAudio() ? 'model' : 'none';
+  } catch {
+    return 'none';
+  }
+};
+
 const StudentBox: React.FC<StudentBoxProps> = ({ 
   name, 
   questionId,
@@ -20,14 +50,27 @@ const StudentBox: React.FC<StudentBoxProps> = ({
   hasAnswered, 
   savedAnswer,
   onAnswerComplete, 
-  disabled 
+  disabled,
+  turnSeconds,
+  endsAt,
+  autoSubmitOnTimeUp = false,
+  isAiPartner = false,
+  onReplay,
+  notAsked = false,
+  recognitionSettings
 }) => {
   // UI States
   const [isRecording, setIsRecording] = useState(false);
   const [transcript, setTranscript] = useState("");
   const [interimTranscript, setInterimTranscript] = useState("");
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
   
+  // Model transcription: the clip is sent for transcription on Stop
+  const [speechInput] = useState(detectSpeechInput);
+  const [hasRecording, setHasRecording] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+
   // Manual Input State
   const [isManualMode, setIsManualMode] = useState(false);
   const [manualText, setManualText] = useState("");
@@ -35,7 +78,21 @@ const StudentBox: React.FC<StudentBoxProps> = ({
   // Refs for logic
   const recognitionInstanceRef = useRef<any>(null);
   const fullTranscriptRef = useRef(""); 
+  const segmentsRef = useRef<RecognitionSegment[]>([]); // finalised results with their confidence
+  const keepListeningRef = useRef(false); // continuous mode: restart when the browser ends a session, until Stop
   const isMountedRef = useRef(true);
+  const recorderRef = useRef<TurnRecorder | null>(null); // audio of this turn, alongside recognition
+  const isSubmittingRef = useRef(false); // submit waits for the recorder; ignore double taps
+  const transcribedRef = useRef(true); // model mode: the transcript covers everything recorded so far
+  const transcriptionRef = useRef<AbortController | null>(null);
+  const pendingTranscriptionRef = useRef<Promise<string | null> | null>(null);
+
+  // Timing of this turn (ms since epoch)
+  const turnStartedAtRef = useRef<number | null>(null);
+  const startedAtRef = useRef<number | null>(null);
+  const segmentStartRef = useRef<number | null>(null);
+  const speakingMsRef = useRef(0);
+  const timeUpRef = useRef<() => void>(() => {});
 
   // Check support on mount
   useEffect(() => {
@@ -43,6 +100,8 @@ const StudentBox: React.FC<StudentBoxProps> = ({
     
     // Reset state when question changes
     fullTranscriptRef.current = "";
+    segmentsRef.current = [];
+    keepListeningRef.current = false;
     setTranscript("");
     setInterimTranscript("");
     setErrorMsg(null);
@@ -52,35 +111,56 @@ const StudentBox: React.FC<StudentBoxProps> = ({
     if (recognitionInstanceRef.current) {
         try { recognitionInstanceRef.current.abort(); } catch(e){}
     }
+    recorderRef.current?.cancel();
+    recorderRef.current = null;
+    transcriptionRef.current?.abort();
+    transcribedRef.current = true;
 
-    try {
-        const ua = window.navigator.userAgent.toLowerCase();
-        const isIOS = /iphone|ipad|ipod/.test(ua);
-        const isSafari = isIOS && /safari/.test(ua) && !/crios|fxios|crmo|edgios/.test(ua);
-        
-        // Strict iOS Non-Safari Check
-        if (isIOS && !isSafari) {
-          setIsManualMode(true);
-          setErrorMsg("Browser not supported. Please use Safari on iOS or Chrome on Android.");
-          return;
-        }
-
-        const windowObj = window as unknown as IWindow;
-        if (!windowObj.SpeechRecognition && !windowObj.webkitSpeechRecognition) {
-          setIsManualMode(true);
-          setErrorMsg("Voice not supported. Manual mode.");
-        }
-    } catch (e) {
+    if (speechInput === 'none') {
         setIsManualMode(true);
+        setErrorMsg("Voice not supported. Manual mode.");
     }
 
     return () => {
         isMountedRef.current = false;
+        keepListeningRef.current = false;
+        transcriptionRef.current?.abort();
         if (recognitionInstanceRef.current) {
             try { recognitionInstanceRef.current.abort(); } catch(e) {}
         }
+        recorderRef.current?.cancel();
+        recorderRef.current = null;
     };
-  }, [questionId]); // Reset on question ID change
+  }, [questionId, speechInput]); // Reset on question ID change
+
+  // The turn starts when the box becomes active
+  useEffect(() => {
+    if (isActive && !hasAnswered && turnStartedAtRef.current === null) {
+      turnStartedAtRef.current = Date.now();
+    }
+  }, [isActive, hasAnswered]);
+
+  // Countdown; calls the latest time-up handler through a ref
+  useEffect(() => {
+    if (!isActive || hasAnswered || isAiPartner || (!turnSeconds && endsAt === undefined)) return;
+    const deadline = endsAt ?? (turnStartedAtRef.current ?? Date.now()) + (turnSeconds ?? 0) * 1000;
+    const timer = setInterval(() => {
+      const left = Math.max(0, deadline - Date.now());
+      setRemainingMs(left);
+      if (left === 0) {
+        clearInterval(timer);
+        timeUpRef.current();
+      }
+    }, 250);
+    return () => clearInterval(timer);
+  }, [isActive, hasAnswered, turnSeconds, endsAt, isAiPartner]);
+
+  const closeSpeakingSegment = useCallback(() => {
+      if (segmentStartRef.current !== null) {
+          speakingMsRef.current += Date.now() - segmentStartRef.current;
+          segmentStartRef.current = null;
+      }
+  }, []);
 
   // Lazy Initialization of Speech Recognition
   const getRecognition = useCallback(() => {
@@ -93,12 +173,15 @@ const StudentBox: React.FC<StudentBoxProps> = ({
 
       try {
           const recognition = new SpeechRecognition();
-          recognition.continuous = false; // False is safer for Android
+          recognition.continuous = recognitionSettings.continuous;
           recognition.interimResults = true;
-          recognition.lang = 'en-US';
-          recognition.maxAlternatives = 1;
+          recognition.lang = recognitionSettings.lang;
+          recognition.maxAlternatives = recognitionSettings.maxAlternatives;
 
           recognition.onstart = () => {
+              const now = Date.now();
+              segmentStartRef.current = now;
+              if (startedAtRef.current === null) startedAtRef.current = now;
               if (isMountedRef.current) {
                 setIsRecording(true);
                 setErrorMsg(null);
@@ -111,11 +194,21 @@ const StudentBox: React.FC<StudentBoxProps> = ({
               let newFinal = '';
               let newInterim = '';
 
-              for (let i = 0; i < event.results.length; ++i) {
-                  if (event.results[i].isFinal) {
-                      newFinal += event.results[i][0].transcript;
+              // In continuous mode `results` keeps earlier segments; only those from resultIndex are new
+              for (let i = event.resultIndex ?? 0; i < event.results.length; ++i) {
+                  const result = event.results[i];
+                  if (result.isFinal) {
+                      newFinal += result[0].transcript;
+                      const readings = Array.from({ length: result.length }, (_, j) => ({
+                          transcript: String(result[j].transcript).trim(),
+                          confidence: Number(result[j].confidence) || 0,
+                      }));
+                      segmentsRef.current.push({
+                          ...readings[0],
+                          ...(readings.length > 1 ? { alternatives: readings.slice(1) } : {}),
+                      });
                   } else {
-                      newInterim += event.results[i][0].transcript;
+                      newInterim += result[0].transcript;
                   }
               }
 
@@ -130,12 +223,13 @@ const StudentBox: React.FC<StudentBoxProps> = ({
               if (!isMountedRef.current) return;
               console.log("Rec Error:", event.error);
               
-              // Ignore common non-critical errors
+              // Ignore common non-critical errors; continuous mode restarts in onend
               if (event.error === 'no-speech' || event.error === 'aborted') {
-                  setIsRecording(false);
+                  if (!keepListeningRef.current) setIsRecording(false);
                   return;
               }
 
+              keepListeningRef.current = false;
               setIsRecording(false);
               
               if (event.error === 'not-allowed') {
@@ -151,11 +245,25 @@ const StudentBox: React.FC<StudentBoxProps> = ({
 
           recognition.onend = () => {
               if (!isMountedRef.current) return;
+              closeSpeakingSegment();
+
+              // Browsers end a session after a pause or about a minute even in continuous mode
+              if (keepListeningRef.current) {
+                  try {
+                      recognition.start();
+                      return;
+                  } catch (e) {
+                      console.warn("Could not restart recognition", e);
+                      keepListeningRef.current = false;
+                  }
+              }
 
               // ANDROID FIX: Capture any leftover interim text
               // The 'interimTranscript' state might be stale in this closure, 
               // but we can try to access the DOM or just rely on react state updates having happened
               setIsRecording(false);
+              // Keep silence between segments out of the recording
+              recorderRef.current?.pause();
               
               // We rely on the user to press 'Submit' or 'Record' again
               // We don't auto-submit here to avoid premature submission
@@ -167,11 +275,94 @@ const StudentBox: React.FC<StudentBoxProps> = ({
           console.error("Init error", e);
           return null;
       }
-  }, []);
+  }, [closeSpeakingSegment, recognitionSettings]);
+
+  // --- Model transcription (no speech recognition in this browser) ---
+
+  // Replaces the transcript with the provider's reading of everything recorded
+  // so far. Resolves to the text, or null if it failed or was superseded.
+  const transcribeRecording = () => {
+      transcriptionRef.current?.abort();
+      const controller = new AbortController();
+      transcriptionRef.current = controller;
+      setIsTranscribing(true);
+      setErrorMsg(null);
+
+      const task = (async (): Promise<string | null> => {
+          try {
+              const audio = await recorderRef.current?.snapshot();
+              if (!audio) return null;
+              const text = await transcribeAudio(audio, recognitionSettings.lang, { signal: controller.signal });
+              if (controller.signal.aborted || !isMountedRef.current) return null;
+              if (text === null) {
+                  setIsManualMode(true);
+                  setErrorMsg("Voice not supported. Manual mode.");
+                  return null;
+              }
+              fullTranscriptRef.current = text;
+              setTranscript(text);
+              transcribedRef.current = true;
+              return text;
+          } catch (err) {
+              if (controller.signal.aborted || !isMountedRef.current) return null;
+              console.error("Transcription error", err);
+              setErrorMsg("Couldn't write down your answer. Tap Submit to try again, or type it.");
+              return null;
+          } finally {
+              if (transcriptionRef.current === controller) {
+                  transcriptionRef.current = null;
+                  pendingTranscriptionRef.current = null;
+                  if (isMountedRef.current) setIsTranscribing(false);
+              }
+          }
+      })();
+      pendingTranscriptionRef.current = task;
+      return task;
+  };
+
+  const startModelRecording = async () => {
+      setErrorMsg(null);
+      stopAllAudio();
+      // The clip is about to grow, so a transcription of the shorter one is no use
+      transcriptionRef.current?.abort();
+
+      if (!recorderRef.current) recorderRef.current = createTurnRecorder();
+      const recorder = recorderRef.current;
+      try {
+          await recorder.start();
+      } catch (err) {
+          console.warn("Could not start recording", err);
+          setErrorMsg("Mic blocked. Check settings.");
+          return;
+      }
+      if (!isMountedRef.current || recorderRef.current !== recorder) return;
+      recorder.resume();
+
+      const now = Date.now();
+      segmentStartRef.current = now;
+      if (startedAtRef.current === null) startedAtRef.current = now;
+      transcribedRef.current = false;
+      setHasRecording(true);
+      setIsRecording(true);
+  };
+
+  const stopModelRecording = () => {
+      recorderRef.current?.pause();
+      closeSpeakingSegment();
+      setIsRecording(false);
+      transcribeRecording();
+  };
 
   const handleMicClick = () => {
+      if (speechInput === 'model') {
+          if (isRecording) stopModelRecording();
+          else startModelRecording();
+          return;
+      }
+
       // 1. If recording, stop
       if (isRecording) {
+          keepListeningRef.current = false;
           if (recognitionInstanceRef.current) {
               try { recognitionInstanceRef.current.stop(); } catch(e) {}
           }
@@ -188,12 +379,22 @@ const StudentBox: React.FC<StudentBoxProps> = ({
           return;
       }
 
+      // Audio is best-effort: a refused mic or missing MediaRecorder only loses the clip
+      if (!recorderRef.current) {
+          recorderRef.current = createTurnRecorder();
+          recorderRef.current.start().catch(err => console.warn("Audio recording unavailable", err));
+      } else {
+          recorderRef.current.resume();
+      }
+
       try {
           // Reset interim for new session
           setInterimTranscript("");
+          keepListeningRef.current = recognitionSettings.continuous;
           recognition.start();
       } catch (e) {
           console.error("Start error", e);
+          keepListeningRef.current = false;
           setIsRecording(false);
           // Force manual mode on crash
           setIsManualMode(true);
@@ -201,7 +402,25 @@ const StudentBox: React.FC<StudentBoxProps> = ({
       }
   };
 
-  const handleSubmit = () => {
+  // `force` is used when time runs out: an empty answer is accepted and the turn ends
+  const handleSubmit = async (force = false) => {
+      if (isSubmittingRef.current) return;
+
+      // Model mode: the transcript must cover the whole clip before it is submitted
+      if (speechInput === 'model' && !isManualMode) {
+          if (isRecording) {
+              recorderRef.current?.pause();
+              closeSpeakingSegment();
+              setIsRecording(false);
+          }
+          if (!transcribedRef.current && recorderRef.current) {
+              isSubmittingRef.current = true;
+              const text = await (pendingTranscriptionRef.current ?? transcribeRecording());
+              isSubmittingRef.current = false;
+              if (text === null && !force) return;
+          }
+      }
+
       let finalText = fullTranscriptRef.current;
       if (isManualMode) finalText = manualText;
 
@@ -210,20 +429,57 @@ const StudentBox: React.FC<StudentBoxProps> = ({
           finalText = (finalText + " " + interimTranscript).trim();
       }
 
-      if (!finalText.trim()) {
+      if (!finalText.trim() && !force) {
           setErrorMsg("Please say something first.");
           return;
       }
       
       // Stop recognition if running
+      keepListeningRef.current = false;
       if (isRecording && recognitionInstanceRef.current) {
           try { recognitionInstanceRef.current.abort(); } catch(e) {}
       }
+      closeSpeakingSegment();
       
-      onAnswerComplete(finalText.trim());
+      isSubmittingRef.current = true;
+      const recorder = recorderRef.current;
+      recorderRef.current = null;
+      const audio = recorder && !isManualMode ? await recorder.stop() : null;
+      recorder?.cancel();
+
+      const endedAt = Date.now();
+      onAnswerComplete({
+          text: finalText.trim(),
+          audio: audio ?? undefined,
+          recognition: !isManualMode && segmentsRef.current.length > 0 ? segmentsRef.current : undefined,
+          timing: {
+              turnStartedAt: turnStartedAtRef.current ?? endedAt,
+              startedAt: startedAtRef.current ?? undefined,
+              endedAt,
+              speakingMs: speakingMsRef.current,
+          },
+      });
   };
 
-  const hasText = isManualMode ? manualText.length > 0 : (transcript.length > 0 || interimTranscript.length > 0);
+  useEffect(() => {
+      timeUpRef.current = () => {
+          if (autoSubmitOnTimeUp) {
+              handleSubmit(true);
+          } else if (isRecording && speechInput === 'model') {
+              stopModelRecording();
+          } else if (isRecording && recognitionInstanceRef.current) {
+              // Like the examiner saying "Thank you": stop listening, but let them submit
+              keepListeningRef.current = false;
+              try { recognitionInstanceRef.current.stop(); } catch(e) { console.warn(e); }
+          }
+      };
+  });
+
+  const isTimeUp = remainingMs === 0;
+  // An `endsAt` countdown shows from its first tick
+  const countdownMs = remainingMs ?? (turnSeconds ? turnSeconds * 1000 : null);
+
+  const hasText = isManualMode ? manualText.length > 0 : (transcript.length > 0 || interimTranscript.length > 0 || hasRecording);
 
   const renderContent = () => {
       if (hasAnswered) {
@@ -251,6 +507,70 @@ const StudentBox: React.FC<StudentBoxProps> = ({
       );
   };
 
+  if (notAsked) {
+    return (
+      <div className="flex flex-col h-full border-2 border-dashed border-gray-200 rounded-xl overflow-hidden bg-gray-50 opacity-70">
+        <div className="p-4 border-b border-gray-200 bg-gray-100">
+          <h3 className="font-bold text-lg text-gray-500">{name}</h3>
+        </div>
+        <div className="flex-1 min-h-[150px] flex items-center justify-center p-4 text-center">
+          <span className="text-gray-400 font-medium italic">This question is for your partner. Listen to their answer.</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (isAiPartner) {
+    // Active with an answer = spoken and waiting for Continue
+    const isThinking = isActive && !savedAnswer;
+    const canContinue = isActive && !!savedAnswer;
+    return (
+      <div className={`flex flex-col h-full border-2 rounded-xl overflow-hidden transition-all duration-300 ${isActive ? 'border-emerald-500 bg-emerald-50 shadow-md ring-2 ring-emerald-200 ring-offset-2' : 'border-gray-200 bg-white opacity-90'}`}>
+        <div className={`p-4 border-b flex justify-between items-center ${isActive ? 'bg-emerald-100 border-emerald-200' : 'bg-gray-100 border-gray-200'}`}>
+          <h3 className={`font-bold text-lg ${isActive ? 'text-emerald-900' : 'text-gray-600'}`}>{name}</h3>
+          <span className="text-xs font-bold text-emerald-700 px-2 py-1 bg-white rounded-full flex items-center gap-1"><Bot className="w-3 h-3"/> AI Partner</span>
+        </div>
+
+        <div className="flex-1 p-4 overflow-y-auto min-h-[150px] relative bg-white/60">
+          {savedAnswer ? (
+            <p className="text-gray-800 whitespace-pre-wrap leading-relaxed text-lg">{savedAnswer}</p>
+          ) : isThinking ? (
+            <div className="absolute inset-0 flex items-center justify-center text-emerald-700 gap-2">
+              <Loader2 className="w-5 h-5 animate-spin" /> <span className="font-medium italic">Thinking...</span>
+            </div>
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center pointer-events-none opacity-40">
+              <span className="text-gray-400 font-medium italic">Waiting for my turn</span>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 bg-white grid grid-cols-5 gap-3 sticky bottom-0 z-10">
+          {canContinue ? (
+            <>
+              <button
+                onClick={onReplay}
+                className="col-span-2 flex items-center justify-center gap-1 px-2 py-4 rounded-xl font-bold bg-gray-100 text-gray-700 hover:bg-gray-200"
+              >
+                <Volume2 className="w-5 h-5" /> Replay
+              </button>
+              <button
+                onClick={() => onAnswerComplete({ text: savedAnswer! })}
+                className="col-span-3 flex items-center justify-center gap-2 px-4 py-4 rounded-xl font-bold bg-emerald-600 text-white shadow-md hover:bg-emerald-700"
+              >
+                Continue <ArrowRight className="w-5 h-5" />
+              </button>
+            </>
+          ) : (
+            <button disabled className="col-span-5 flex items-center justify-center gap-2 px-6 py-4 rounded-xl font-bold bg-gray-100 text-gray-400 cursor-not-allowed">
+              {hasAnswered ? <><CheckCircle2 className="w-5 h-5" /> Finished</> : isThinking ? "Preparing answer..." : "Listening"}
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className={`flex flex-col h-full border-2 rounded-xl overflow-hidden transition-all duration-300 ${isActive ? 'border-blue-500 bg-blue-50 shadow-md ring-2 ring-blue-200 ring-offset-2' : 'border-gray-200 bg-white opacity-90'}`}>
       
@@ -259,6 +579,11 @@ const StudentBox: React.FC<StudentBoxProps> = ({
         <h3 className={`font-bold text-lg ${isActive ? 'text-blue-900' : 'text-gray-600'}`}>{name}</h3>
         {isActive && !hasAnswered && (
              <div className="flex gap-2">
+                 {countdownMs !== null ? (
+                     <span className={`text-xs font-mono font-bold px-2 py-1 rounded-full flex items-center gap-1 ${isTimeUp ? 'bg-red-600 text-white' : countdownMs <= 10000 ? 'bg-red-100 text-red-600' : 'bg-white text-gray-700'}`}>
+                         <Timer className="w-3 h-3"/> {isTimeUp ? "Time's up" : formatClock(countdownMs)}
+                     </span>
+                 ) : null}
                  {!isManualMode ? (
                      <button onClick={() => setIsManualMode(true)} className="text-xs flex items-center gap-1 text-blue-600 bg-white px-2 py-1 rounded shadow-sm hover:bg-blue-50">
                          <Keyboard className="w-3 h-3"/> Type
@@ -287,6 +612,14 @@ const StudentBox: React.FC<StudentBoxProps> = ({
              </div>
          )}
          
+         {!hasAnswered && !isRecording && isTranscribing && (
+             <div className="absolute top-2 right-2 pointer-events-none z-20">
+                 <span className="flex items-center gap-1 text-xs font-bold text-blue-600 bg-blue-100 px-2 py-1 rounded-full">
+                     <Loader2 className="w-3 h-3 animate-spin" /> Writing it down...
+                 </span>
+             </div>
+         )}
+
          {/* Recording Indicator */}
          {!hasAnswered && isRecording && (
              <div className="absolute top-2 right-2 pointer-events-none z-20">
@@ -317,7 +650,7 @@ const StudentBox: React.FC<StudentBoxProps> = ({
                </button>
           ) : isManualMode ? (
               <button 
-                onClick={handleSubmit}
+                onClick={() => handleSubmit()}
                 className="col-span-5 flex items-center justify-center gap-2 px-6 py-4 rounded-xl font-bold bg-blue-600 text-white shadow-md hover:bg-blue-700 active:translate-y-1"
               >
                   <Send className="w-5 h-5" /> Submit Answer
@@ -338,12 +671,12 @@ const StudentBox: React.FC<StudentBoxProps> = ({
                     {isRecording ? (
                         <><Square className="w-5 h-5 fill-current animate-pulse" /> Stop</>
                     ) : (
-                        <><Mic className="w-5 h-5" /> {transcript ? "Resume" : "Record"}</>
+                        <><Mic className="w-5 h-5" /> {transcript || hasRecording ? "Resume" : "Record"}</>
                     )}
                 </button>
 
                 <button
-                    onClick={handleSubmit}
+                    onClick={() => handleSubmit()}
                     disabled={disabled || (!hasText && !interimTranscript)}
                     className={`col-span-2 flex items-center justify-center gap-1 px-2 py-4 rounded-xl font-bold transition-all border-b-4 active:border-b-0 active:translate-y-1 active:border-t-4 active:border-transparent ${
                         (!hasText && !interimTranscript) || disabled
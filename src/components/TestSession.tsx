@@ -1,49 +1,138 @@
-import React, { useState, useEffect } from 'react';
-import type { DailyPlan, SessionData, FullReport } from '../types';
-import { playTextToSpeech, evaluateSession, stopAllAudio } from '../services/geminiService';
-import { Volume2, Eye, EyeOff, ArrowRight, Loader2, Flag, VolumeX, Check, PlayCircle } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import type { ConversationSettings, DailyPlan, DialogueTurn, SessionData, FullReport, FollowUpSettings, Question, QuestionPart, RecognitionSettings, Seat, Student, StudentSessionData, SubmittedAnswer, TimingSettings, VoiceSettings } from '../types';
+import { playTextToSpeech, prefetchSpeech, evaluateSession, generatePartnerAnswer, generateFollowUp, stopAllAudio } from '../services/geminiService';
+import { needsFollowUp, getFullAnswer } from '../services/followUp';
+import { getTurnOrder, planTurnOrder, seatKey } from '../services/turnOrder';
+import { formatDialogue, isConversationOver, isConversationQuestion } from '../services/conversation';
+import { saveSession } from '../services/historyStore';
+import { formatClock } from '../services/clock';
+import { toAiRequestError, type AiRequestError } from '../services/request';
+import { Volume2, Eye, EyeOff, ArrowRight, Loader2, Flag, VolumeX, Check, PlayCircle, Timer, MessagesSquare } from 'lucide-react';
 import StudentBox from './StudentBox';
 import ReportCard from './ReportCard';
+import PromptCards from './PromptCards';
+import RetryPrompt from './RetryPrompt';
 
 interface TestSessionProps {
   plan: DailyPlan;
+  students: [Student, Student];
+  timing: TimingSettings;
+  followUps: FollowUpSettings;
+  conversation: ConversationSettings;
+  voice: VoiceSettings;
+  recognition: RecognitionSettings;
   onBack: () => void;
 }
 
-const TestSession: React.FC<TestSessionProps> = ({ plan, onBack }) => {
+// Records a submitted turn; an empty answer (time ran out) keeps only its timing
+const withAnswer = (seat: StudentSessionData, questionId: string, answer: SubmittedAnswer): StudentSessionData => ({
+  ...seat,
+  answers: answer.text ? { ...seat.answers, [questionId]: answer.text } : seat.answers,
+  audio: answer.audio ? { ...seat.audio, [questionId]: answer.audio } : seat.audio,
+  timings: answer.timing ? { ...seat.timings, [questionId]: answer.timing } : seat.timings,
+  recognition: answer.recognition ? { ...seat.recognition, [questionId]: answer.recognition } : seat.recognition,
+});
+
+const withFollowUp = (seat: StudentSessionData, questionId: string, prompt: string, answer: SubmittedAnswer): StudentSessionData => ({
+  ...seat,
+  followUps: { ...seat.followUps, [questionId]: { prompt, answer: answer.text, audio: answer.audio, timing: answer.timing, recognition: answer.recognition } },
+});
+
+const SEAT_PHASES = { A: 'student_a_turn', B: 'student_b_turn' } as const;
+const OTHER_SEAT = { A: 'B', B: 'A' } as const;
+const NO_TURNS: DialogueTurn[] = [];
+
+// Plans are written without names so they work for any pair; the examiner
+// addresses single-learner questions by name, as in the real test.
+const getSpokenText = (question: Question, students: [Student, Student]) => {
+  if (question.target === 'Both') return question.text;
+  const name = students[question.target === 'A' ? 0 : 1].name;
+  const keepCapital = /^I\b/.test(question.text);
+  const rest = keepCapital ? question.text : question.text.charAt(0).toLowerCase() + question.text.slice(1);
+  return `${name}, ${rest}`;
+};
+
+const TestSession: React.FC<TestSessionProps> = ({ plan, students, timing, followUps, conversation, voice, recognition, onBack }) => {
+  const [studentA, studentB] = students;
   const [currentQuestionIdx, setCurrentQuestionIdx] = useState(0);
   const [showQuestionText, setShowQuestionText] = useState(false);
   const [isTTSLoading, setIsTTSLoading] = useState(false);
   const [autoplayBlocked, setAutoplayBlocked] = useState(false);
   
-  const [sessionData, setSessionData] = useState<SessionData>({
-    studentA: { answers: {} },
-    studentB: { answers: {} }
-  });
+  const [sessionData, setSessionData] = useState<SessionData>(() => ({
+    studentA: { student: studentA, answers: {} },
+    studentB: { student: studentB, answers: {} },
+    turnOrder: planTurnOrder(plan),
+  }));
   
-  // Phase logic: examiner -> tom -> bella -> next question
-  const [phase, setPhase] = useState<'examiner_speaking' | 'student_a_turn' | 'student_b_turn' | 'evaluating' | 'results'>('examiner_speaking');
+  // Phase logic: examiner -> each learner in the question's turn order -> next question.
+  // A thin answer detours through examiner_thinking -> examiner_speaking (the follow-up) -> the same student again.
+  // A Part 2 conversation alternates student_a_turn / student_b_turn until it runs out of turns or time.
+  const [phase, setPhase] = useState<'examiner_speaking' | 'examiner_thinking' | 'student_a_turn' | 'student_b_turn' | 'evaluating' | 'results'>('examiner_speaking');
+  const [followUp, setFollowUp] = useState<{ seat: Seat, prompt: string } | null>(null);
   const [report, setReport] = useState<FullReport | null>(null);
   const [isFinishing, setIsFinishing] = useState(false);
   const [confirmExit, setConfirmExit] = useState(false);
+  const [evaluationError, setEvaluationError] = useState<AiRequestError | null>(null);
+  const evaluationRef = useRef<AbortController | null>(null);
+  const followUpRef = useRef<AbortController | null>(null); // the follow-up being written, cancelled on finish
+  const [conversationStartedAt, setConversationStartedAt] = useState<number | null>(null);
+  // The AI partner's next conversation line, keyed by question and turn
+  const [partnerLine, setPartnerLine] = useState<{ key: string, text: string } | null>(null);
+
+  // When each part of the test began, for the part time budget
+  const [partStartedAt, setPartStartedAt] = useState<Partial<Record<QuestionPart, number>>>(() =>
+    plan.questions[0] ? { [plan.questions[0].part]: Date.now() } : {}
+  );
+  const [now, setNow] = useState(() => Date.now());
 
   const currentQuestion = plan.questions[currentQuestionIdx];
+  const turnOrder = currentQuestion ? getTurnOrder(plan, currentQuestionIdx) : [];
+  const spokenText = !currentQuestion ? ""
+      : followUp ? getSpokenText({ ...currentQuestion, text: followUp.prompt, target: followUp.seat }, students)
+      : getSpokenText(currentQuestion, students);
 
-  // Stop audio when unmounting
+  const partStart = currentQuestion ? partStartedAt[currentQuestion.part] : undefined;
+  const partDeadline = timing.enabled && currentQuestion && partStart !== undefined
+      ? partStart + timing.partMinutes[currentQuestion.part] * 60000
+      : null;
+
+  const isConversation = !!currentQuestion && isConversationQuestion(currentQuestion, conversation);
+  const dialogue = (currentQuestion && sessionData.dialogues?.[currentQuestion.id]) || NO_TURNS;
+  const conversationDeadline = conversationStartedAt !== null ? conversationStartedAt + conversation.minutes * 60000 : null;
+
+  useEffect(() => {
+      if (partDeadline === null && conversationDeadline === null) return;
+      const timer = setInterval(() => setNow(Date.now()), 1000);
+      return () => clearInterval(timer);
+  }, [partDeadline, conversationDeadline]);
+
+  // Stop audio and any follow-up or report still being written when unmounting
   useEffect(() => {
-      return () => { stopAllAudio(); };
+      return () => {
+          stopAllAudio();
+          followUpRef.current?.abort();
+          evaluationRef.current?.abort();
+      };
   }, []);
 
+  // Synthesise every question in the background while the first one plays
+  useEffect(() => {
+      const controller = new AbortController();
+      prefetchSpeech(plan.questions.map(q => getSpokenText(q, students)), voice, controller.signal);
+      return () => controller.abort();
+  }, [plan, students, voice]);
+
   // Auto-play TTS when question changes
   useEffect(() => {
-    if (phase === 'examiner_speaking' && currentQuestion) {
+    if (phase === 'examiner_speaking' && spokenText) {
        // Reset blocked state
        setAutoplayBlocked(false);
        
        const playAudio = async () => {
          setIsTTSLoading(true);
          try {
-           const success = await playTextToSpeech(currentQuestion.text);
+           const success = await playTextToSpeech(spokenText, voice);
            if (!success) {
                console.warn("Autoplay blocked or failed");
                setAutoplayBlocked(true);
@@ -60,13 +149,61 @@ const TestSession: React.FC<TestSessionProps> = ({ plan, onBack }) => {
        const timer = setTimeout(playAudio, 500);
        return () => clearTimeout(timer);
     }
-  }, [currentQuestion, phase]);
+  }, [spokenText, phase, voice]);
+
+  // The AI partner answers by itself when its turn comes, then speaks the answer
+  const partnerAnswer = currentQuestion ? sessionData.studentB.answers[currentQuestion.id] : undefined;
+  const learnerAnswer = currentQuestion ? getFullAnswer(sessionData.studentA, currentQuestion.id) : "";
+  useEffect(() => {
+    if (phase !== 'student_b_turn' || !studentB.isAi || isConversation || partnerAnswer) return;
+
+    const controller = new AbortController();
+    generatePartnerAnswer(plan, currentQuestion, studentB, learnerAnswer || undefined, undefined, { signal: controller.signal })
+      .catch(err => {
+        console.error("Partner answer error", err);
+        return "Sorry, I'm not sure what to say. Let's go on.";
+      })
+      .then(answer => {
+        if (controller.signal.aborted) return;
+        setSessionData(prev => ({
+            ...prev,
+            studentB: {
+                ...prev.studentB,
+                answers: { ...prev.studentB.answers, [currentQuestion.id]: answer }
+            }
+        }));
+        playTextToSpeech(answer, voice).catch(e => console.error("Partner TTS error", e));
+      });
+
+    return () => controller.abort();
+  }, [phase, plan, currentQuestion, studentB, isConversation, partnerAnswer, learnerAnswer, voice]);
+
+  // In a conversation the partner replies to everything said so far, one line per turn
+  const partnerLineKey = currentQuestion ? `${currentQuestion.id}-${dialogue.length}` : "";
+  const hasPartnerLine = partnerLine?.key === partnerLineKey;
+  useEffect(() => {
+    if (phase !== 'student_b_turn' || !studentB.isAi || !isConversation || hasPartnerLine) return;
+
+    const controller = new AbortController();
+    generatePartnerAnswer(plan, currentQuestion, studentB, undefined, formatDialogue(sessionData, dialogue), { signal: controller.signal })
+      .catch(err => {
+        console.error("Partner conversation error", err);
+        return "I'm not sure. What do you think?";
+      })
+      .then(text => {
+        if (controller.signal.aborted) return;
+        setPartnerLine({ key: partnerLineKey, text });
+        playTextToSpeech(text, voice).catch(e => console.error("Partner TTS error", e));
+      });
+
+    return () => controller.abort();
+  }, [phase, plan, currentQuestion, studentB, isConversation, hasPartnerLine, partnerLineKey, sessionData, dialogue, voice]);
 
   const handleManualPlay = async () => {
       setAutoplayBlocked(false);
       setIsTTSLoading(true);
       try {
-          await playTextToSpeech(currentQuestion.text);
+          await playTextToSpeech(spokenText, voice);
       } catch (e) {
           console.error("Manual play error", e);
       } finally {
@@ -76,70 +213,146 @@ const TestSession: React.FC<TestSessionProps> = ({ plan, onBack }) => {
 
   const handleExaminerDone = async () => {
       stopAllAudio(); // synchronous now
-      // ALWAYS start with Tom (Student A)
-      setPhase('student_a_turn');
+      if (isConversation && conversationStartedAt === null) setConversationStartedAt(Date.now());
+      // A follow-up goes back to whoever it was for; otherwise the first learner asked
+      setPhase(SEAT_PHASES[followUp?.seat ?? turnOrder[0]]);
   };
 
-  const handleStudentAComplete = (text: string) => {
-    setSessionData(prev => ({
-        ...prev,
-        studentA: {
-            ...prev.studentA,
-            answers: { ...prev.studentA.answers, [currentQuestion.id]: text }
-        }
-    }));
-    
-    // ALWAYS move to Bella (Student B) next
-    setPhase('student_b_turn');
+  // Resolves to true when the examiner asks a follow-up instead of moving on,
+  // or when the session was finished while it was being written
+  const askFollowUp = async (seat: Seat, learner: Student, answerText: string): Promise<boolean> => {
+      if (learner.isAi || !needsFollowUp(currentQuestion, answerText, followUps)) return false;
+      // No detours once the part is over time
+      if (timing.autoAdvance && partDeadline !== null && Date.now() >= partDeadline) return false;
+
+      setPhase('examiner_thinking');
+      const controller = new AbortController();
+      followUpRef.current = controller;
+      try {
+          const prompt = await generateFollowUp(plan, currentQuestion, learner, answerText, { signal: controller.signal });
+          if (controller.signal.aborted) return true;
+          setFollowUp({ seat, prompt });
+          setShowQuestionText(false);
+          setPhase('examiner_speaking');
+          return true;
+      } catch (err) {
+          if (controller.signal.aborted) return true;
+          console.error("Follow-up error", err);
+          return false;
+      } finally {
+          if (followUpRef.current === controller) followUpRef.current = null;
+      }
   };
 
-  const handleStudentBComplete = (text: string) => {
-    setSessionData(prev => ({
-        ...prev,
-        studentB: {
-            ...prev.studentB,
-            answers: { ...prev.studentB.answers, [currentQuestion.id]: text }
-        }
-    }));
-    // After Bella, go to next question
-    goToNextQuestion();
+  // Each turn is added to the dialogue; the floor passes to the partner until turns or time run out
+  const handleConversationTurn = (seat: Seat, answer: SubmittedAnswer) => {
+    const nextDialogue = [...dialogue, { seat, text: answer.text, audio: answer.audio, timing: answer.timing, recognition: answer.recognition }];
+    const nextData: SessionData = {
+        ...sessionData,
+        dialogues: { ...sessionData.dialogues, [currentQuestion.id]: nextDialogue }
+    };
+    setSessionData(nextData);
+    setPartnerLine(null);
+
+    const partOverTime = timing.autoAdvance && partDeadline !== null && Date.now() >= partDeadline;
+    if (partOverTime || isConversationOver(nextDialogue, conversationStartedAt ?? Date.now(), conversation)) {
+        goToNextQuestion(nextData);
+    } else {
+        setPhase(SEAT_PHASES[OTHER_SEAT[seat]]);
+    }
+  };
+
+  const handleTurnComplete = async (seat: Seat, answer: SubmittedAnswer) => {
+    if (isConversation) {
+        handleConversationTurn(seat, answer);
+        return;
+    }
+    const key = seatKey(seat);
+    const answeredFollowUp = followUp?.seat === seat ? followUp : null;
+    const nextData: SessionData = {
+        ...sessionData,
+        [key]: answeredFollowUp
+            ? withFollowUp(sessionData[key], currentQuestion.id, answeredFollowUp.prompt, answer)
+            : withAnswer(sessionData[key], currentQuestion.id, answer)
+    };
+    setSessionData(nextData);
+    setFollowUp(null);
+
+    if (!answeredFollowUp && await askFollowUp(seat, sessionData[key].student, answer.text)) return;
+
+    // Next learner asked this question, or on to the next question
+    const nextSeat = turnOrder[turnOrder.indexOf(seat) + 1];
+    if (nextSeat) {
+        setPhase(SEAT_PHASES[nextSeat]);
+    } else {
+        goToNextQuestion(nextData);
+    }
   };
 
-  const goToNextQuestion = () => {
-      if (currentQuestionIdx < plan.questions.length - 1) {
-          setCurrentQuestionIdx(prev => prev + 1);
+  // `latestData` carries answers that are not yet visible through state
+  const goToNextQuestion = (latestData: SessionData) => {
+      let nextIdx = currentQuestionIdx + 1;
+
+      // Out of time for this part: skip its remaining questions
+      if (timing.autoAdvance && partDeadline !== null && Date.now() >= partDeadline) {
+          while (nextIdx < plan.questions.length && plan.questions[nextIdx].part === currentQuestion.part) {
+              nextIdx++;
+          }
+      }
+
+      if (nextIdx < plan.questions.length) {
+          const nextPart = plan.questions[nextIdx].part;
+          setPartStartedAt(prev => (prev[nextPart] !== undefined ? prev : { ...prev, [nextPart]: Date.now() }));
+          setCurrentQuestionIdx(nextIdx);
+          setConversationStartedAt(null);
+          setPartnerLine(null);
           setShowQuestionText(false);
           setPhase('examiner_speaking');
       } else {
-          finishSession();
+          finishSession(latestData);
       }
   };
 
-  const finishSession = async () => {
+  const finishSession = async (finalData: SessionData = sessionData) => {
       // Force stop everything
       try { stopAllAudio(); } catch(e) {}
+      followUpRef.current?.abort();
       
       setPhase('evaluating');
       setIsFinishing(true);
-      
+      setEvaluationError(null);
+
+      const controller = new AbortController();
+      evaluationRef.current = controller;
       try {
-          const result = await evaluateSession(plan, sessionData);
-          setReport(result);
-          setPhase('results');
+          showReport(finalData, await evaluateSession(plan, finalData, { signal: controller.signal }));
       } catch (err) {
+          const error = toAiRequestError(err);
+          if (error.category === 'cancelled') return; // the session was left
           console.error("Evaluation error:", err);
-          // Fallback report so the user is not stuck
-          setReport({
-              studentA: { score: 0, feedback: "Incomplete data or connection error.", goodPoints: [], badPoints: [], suggestions: ["Check internet connection."] },
-              studentB: { score: 0, feedback: "Incomplete data or connection error.", goodPoints: [], badPoints: [], suggestions: ["Check internet connection."] },
-              generalFeedback: "Session ended. We could not generate a full AI report, possibly due to network issues or no audio data recorded."
-          });
-          setPhase('results');
-      } finally {
+          // Retries are already used up: let the user choose between another go and the basic report
+          setEvaluationError(error);
           setIsFinishing(false);
       }
   };
 
+  const showReport = (finalData: SessionData, result: FullReport) => {
+      setReport(result);
+      setEvaluationError(null);
+      setPhase('results');
+      setIsFinishing(false);
+
+      // Keep the transcripts even when the report is only the fallback
+      saveSession(plan, finalData, result).catch(err => console.error("Failed to save session history", err));
+  };
+
+  // Fallback report so the user is not stuck; answers are still in sessionData by now
+  const showBasicReport = () => showReport(sessionData, {
+      studentA: studentA.isAi ? null : { score: 0, feedback: "Incomplete data or connection error.", goodPoints: [], badPoints: [], suggestions: ["Check internet connection."] },
+      studentB: studentB.isAi ? null : { score: 0, feedback: "Incomplete data or connection error.", goodPoints: [], badPoints: [], suggestions: ["Check internet connection."] },
+      generalFeedback: "Session ended. We could not generate a full AI report, possibly due to network issues or no audio data recorded."
+  });
+
   const handleEarlyFinish = () => {
       if (isFinishing) return;
       
@@ -154,7 +367,7 @@ const TestSession: React.FC<TestSessionProps> = ({ plan, onBack }) => {
   };
 
   if (phase === 'results' && report) {
-      return <ReportCard report={report} onRestart={onBack} />;
+      return <ReportCard report={report} plan={plan} sessionData={sessionData} onRestart={onBack} />;
   }
 
   if (phase === 'evaluating') {
@@ -163,16 +376,35 @@ const TestSession: React.FC<TestSessionProps> = ({ plan, onBack }) => {
               <div className="animate-spin rounded-full h-16 w-16 border-t-4 border-b-4 border-blue-600 mb-6"></div>
               <h2 className="text-2xl font-bold text-gray-800">Generating Analysis...</h2>
               <p className="text-gray-500 mt-2">The examiner is reviewing your answers.</p>
+              {evaluationError && (
+                  <RetryPrompt
+                      error={evaluationError}
+                      action="write the report"
+                      onRetry={() => finishSession(sessionData)}
+                      onDismiss={showBasicReport}
+                      dismissLabel="Show basic report"
+                  />
+              )}
           </div>
       );
   }
 
   // Check if students have already answered the current question
-  const savedAnswerTom = sessionData.studentA.answers[currentQuestion.id];
-  const savedAnswerBella = sessionData.studentB.answers[currentQuestion.id];
+  // While a follow-up is being answered that learner's box starts empty again; in a conversation both boxes start empty every turn
+  const boxKey = (seat: Seat) => (isConversation ? `-turn-${dialogue.length}` : followUp?.seat === seat ? '-follow-up' : '');
+  const savedAnswerA = isConversation || followUp?.seat === 'A' ? undefined : getFullAnswer(sessionData.studentA, currentQuestion.id) || undefined;
+  const savedAnswerB = isConversation ? (hasPartnerLine ? partnerLine?.text : undefined)
+      : followUp?.seat === 'B' ? undefined : getFullAnswer(sessionData.studentB, currentQuestion.id) || undefined;
+  const isExaminerBusy = isTTSLoading || phase === 'examiner_thinking';
   
-  const hasTomAnswered = !!savedAnswerTom;
-  const hasBellaAnswered = !!savedAnswerBella;
+  const hasAnsweredA = !isConversation && !!savedAnswerA;
+  const hasAnsweredB = !isConversation && !!savedAnswerB;
+  // A conversation is timed as a whole, not per turn: the active box counts down to its end
+  // and hands over when it is reached, which ends the conversation
+  const turnSeconds = timing.enabled && !isConversation ? timing.turnSeconds[currentQuestion.part] : undefined;
+  const turnEndsAt = isConversation ? conversationDeadline ?? undefined : undefined;
+  const autoSubmitOnTimeUp = isConversation || timing.autoAdvance;
+  const isLearnerTurn = phase === 'student_a_turn' || phase === 'student_b_turn';
 
   return (
     <div className="flex flex-col h-[100dvh] bg-gray-50 overflow-y-auto">
@@ -185,6 +417,12 @@ const TestSession: React.FC<TestSessionProps> = ({ plan, onBack }) => {
            </h1>
            <div className="flex items-center gap-2 mt-1">
              <div className="text-xs text-gray-500">Q{currentQuestionIdx + 1}/{plan.questions.length}</div>
+             {partDeadline !== null && (
+                <div className={`flex items-center gap-1 text-xs font-mono ${now >= partDeadline ? 'text-red-600 font-bold' : 'text-gray-500'}`} title={`Time left for ${currentQuestion.part}`}>
+                    <Timer className="w-3 h-3" />
+                    {currentQuestion.part} {now >= partDeadline ? "over time" : formatClock(partDeadline - now)}
+                </div>
+             )}
              <div className="flex gap-1">
                 {plan.questions.map((_, idx) => (
                     <div key={idx} className={`h-1.5 w-4 md:w-6 rounded-full transition-colors ${idx === currentQuestionIdx ? 'bg-blue-600' : idx < currentQuestionIdx ? 'bg-green-500' : 'bg-gray-200'}`} />
@@ -225,10 +463,10 @@ const TestSession: React.FC<TestSessionProps> = ({ plan, onBack }) => {
          <div className="absolute top-4 left-4 text-xs font-mono uppercase tracking-widest text-slate-400">Examiner AI</div>
          
          <div className="max-w-3xl w-full flex flex-col items-center gap-6 z-10">
-            {isTTSLoading ? (
+            {isExaminerBusy ? (
                <div className="flex flex-col items-center animate-pulse">
                   <Loader2 className="w-10 h-10 text-blue-400 animate-spin mb-3" />
-                  <span className="text-xl font-light text-slate-300">Preparing question...</span>
+                  <span className="text-xl font-light text-slate-300">{phase === 'examiner_thinking' ? "The examiner has another question..." : "Preparing question..."}</span>
                </div>
             ) : autoplayBlocked ? (
                <div className="flex flex-col items-center animate-in zoom-in duration-300">
@@ -244,8 +482,11 @@ const TestSession: React.FC<TestSessionProps> = ({ plan, onBack }) => {
                </div>
             ) : (
                 <>
+                    {followUp && (
+                        <div className="text-xs font-mono uppercase tracking-widest text-amber-300">Follow-up for {followUp.seat === 'A' ? studentA.name : studentB.name}</div>
+                    )}
                     <div className={`text-2xl md:text-3xl font-serif leading-normal transition-opacity duration-500 ${showQuestionText ? 'opacity-100' : 'opacity-0 h-0 overflow-hidden'}`}>
-                        "{currentQuestion.text}"
+                        "{spokenText}"
                     </div>
                     
                     {!showQuestionText && (
@@ -254,12 +495,35 @@ const TestSession: React.FC<TestSessionProps> = ({ plan, onBack }) => {
                 </>
             )}
 
-            {!isTTSLoading && !autoplayBlocked && (
+            {/* Part 2 picture set stays up for the whole discussion */}
+            {!isExaminerBusy && currentQuestion.part === 'Part 2' && currentQuestion.prompts && currentQuestion.prompts.length > 0 && (
+                <PromptCards prompts={currentQuestion.prompts} />
+            )}
+
+            {isConversation && conversationDeadline !== null && (
+                <div className="flex items-center gap-3 text-sm text-slate-300">
+                    <MessagesSquare className="w-4 h-4" />
+                    <span>Conversation · turn {Math.min(dialogue.length + 1, conversation.maxTurns)} of {conversation.maxTurns}</span>
+                    <span className={`font-mono ${now >= conversationDeadline ? 'text-red-400 font-bold' : ''}`}>
+                        {now >= conversationDeadline ? "time up" : `${formatClock(conversationDeadline - now)} left`}
+                    </span>
+                    {isLearnerTurn && dialogue.length > 0 && (
+                        <button
+                            onClick={() => goToNextQuestion(sessionData)}
+                            className="px-3 py-1 rounded-full bg-slate-700 hover:bg-slate-600 text-xs font-semibold text-white"
+                        >
+                            End conversation
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {!isExaminerBusy && !autoplayBlocked && (
                 <div className="flex gap-4 mt-2">
                     <button 
                         onClick={() => {
                             setIsTTSLoading(true);
-                            playTextToSpeech(currentQuestion.text).catch(e => console.error(e)).finally(() => setIsTTSLoading(false));
+                            playTextToSpeech(spokenText, voice).catch(e => console.error(e)).finally(() => setIsTTSLoading(false));
                         }}
                         disabled={isTTSLoading}
                         className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-full transition-colors text-sm md:text-base disabled:opacity-50"
@@ -292,25 +556,47 @@ const TestSession: React.FC<TestSessionProps> = ({ plan, onBack }) => {
       {/* Answer Area (Bottom) */}
       <div className="flex-1 p-4 md:p-6 grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-8 bg-slate-50 z-0 pb-12">
          <StudentBox 
-            key={`tom-${currentQuestion.id}`}
-            name="Tom" 
+            key={`${studentA.id}-${currentQuestion.id}${boxKey('A')}`}
+            name={studentA.name}
             questionId={currentQuestion.id}
             isActive={phase === 'student_a_turn'} 
-            hasAnswered={hasTomAnswered}
-            savedAnswer={savedAnswerTom}
+            hasAnswered={hasAnsweredA}
+            savedAnswer={savedAnswerA}
             disabled={phase !== 'student_a_turn'}
-            onAnswerComplete={handleStudentAComplete}
+            onAnswerComplete={(answer) => handleTurnComplete('A', answer)}
+            notAsked={!turnOrder.includes('A')}
+            turnSeconds={turnSeconds}
+            endsAt={turnEndsAt}
+            autoSubmitOnTimeUp={autoSubmitOnTimeUp}
+            recognitionSettings={recognition}
          />
          <StudentBox 
-            key={`bella-${currentQuestion.id}`}
-            name="Bella" 
+            key={`${studentB.id}-${currentQuestion.id}${boxKey('B')}`}
+            name={studentB.name}
             questionId={currentQuestion.id}
             isActive={phase === 'student_b_turn'} 
-            hasAnswered={hasBellaAnswered}
-            savedAnswer={savedAnswerBella}
+            hasAnswered={hasAnsweredB}
+            savedAnswer={savedAnswerB}
             disabled={phase !== 'student_b_turn'}
-            onAnswerComplete={handleStudentBComplete}
+            onAnswerComplete={(answer) => handleTurnComplete('B', answer)}
+            notAsked={!turnOrder.includes('B')}
+            turnSeconds={turnSeconds}
+            endsAt={turnEndsAt}
+            autoSubmitOnTimeUp={autoSubmitOnTimeUp}
+            recognitionSettings={recognition}
+            isAiPartner={studentB.isAi}
+            onReplay={() => { if (savedAnswerB) playTextToSpeech(savedAnswerB, voice).catch(e => console.error(e)); }}
          />
+
+         {isConversation && dialogue.length > 0 && (
+            <ol className="md:col-span-2 space-y-2">
+                {formatDialogue(sessionData, dialogue).map((line, i) => (
+                    <li key={i} className={`max-w-[85%] rounded-2xl px-4 py-2 text-sm text-gray-700 ${dialogue[i].seat === 'A' ? 'bg-blue-50' : 'bg-purple-50 ml-auto'}`}>
+                        {line}
+                    </li>
+                ))}
+            </ol>
+         )}
       </div>
     </div>
   );
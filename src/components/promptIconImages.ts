@@ -0,0 +1,73 @@
+import {
+  Apple, Backpack, Bike, Bird, BookOpen, Building2, Bus, CakeSlice, Camera, Car, Cat, ChefHat, CloudRain, Coffee,
+  Dog, Drama, Dumbbell, Film, Fish, Flower2, Footprints, Gamepad2, Gift, Guitar, Headphones, House, IceCreamCone,
+  Landmark, Laptop, Lightbulb, Mountain, Music, Palette, PartyPopper, Pizza, Plane, Salad, Sandwich, School, Ship,
+  ShoppingBag, Shirt, Smartphone, Snowflake, Stethoscope, Sun, Tent, TrainFront, TreePalm, TreePine, Trophy, Tv,
+  Utensils, Volleyball, Waves, type LucideIcon,
+} from 'lucide-react';
+import { findPromptIcon, type PromptIconId } from '../data/promptIcons';
+
+// The picture for each prompt icon id (see data/promptIcons); browser only
+const PROMPT_ICON_IMAGES: Record<PromptIconId, LucideIcon> = {
+  reading: BookOpen,
+  gaming: Gamepad2,
+  drawing: Palette,
+  music: Music,
+  guitar: Guitar,
+  headphones: Headphones,
+  film: Film,
+  tv: Tv,
+  theatre: Drama,
+  photo: Camera,
+  sport: Trophy,
+  ball: Volleyball,
+  gym: Dumbbell,
+  swimming: Waves,
+  cycling: Bike,
+  walking: Footprints,
+  camping: Tent,
+  mountains: Mountain,
+  beach: TreePalm,
+  forest: TreePine,
+  garden: Flower2,
+  plane: Plane,
+  train: TrainFront,
+  bus: Bus,
+  car: Car,
+  boat: Ship,
+  pizza: Pizza,
+  salad: Salad,
+  sandwich: Sandwich,
+  fruit: Apple,
+  cake: CakeSlice,
+  ice_cream: IceCreamCone,
+  drink: Coffee,
+  restaurant: Utensils,
+  cooking: ChefHat,
+  party: PartyPopper,
+  present: Gift,
+  clothes: Shirt,
+  shopping: ShoppingBag,
+  school_bag: Backpack,
+  dog: Dog,
+  cat: Cat,
+  bird: Bird,
+  fish: Fish,
+  sun: Sun,
+  rain: CloudRain,
+  snow: Snowflake,
+  home: House,
+  city: Building2,
+  school: School,
+  museum: Landmark,
+  phone: Smartphone,
+  computer: Laptop,
+  doctor: Stethoscope,
+  idea: Lightbulb,
+};
+
+// Unknown ids (older files, model mistakes, "constructor") fall back to the label's best match
+export const resolvePromptIcon = (option: { label: string, icon: string }): LucideIcon =>
+  Object.hasOwn(PROMPT_ICON_IMAGES, option.icon)
+    ? PROMPT_ICON_IMAGES[option.icon as PromptIconId]
+    : PROMPT_ICON_IMAGES[findPromptIcon(option.label)];
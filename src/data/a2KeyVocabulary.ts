@@ -0,0 +1,53 @@
+// A core subset of the Cambridge A2 Key vocabulary list (base forms, lower case),
+// covering the everyday topic areas of the speaking test. Inflected forms are
+// matched by the analysis code, so only base forms are listed here.
+const WORDS = `
+a able about above across activity actor address adult afraid after afternoon again age ago agree air airport all
+almost alone along already also always am amazing an and angry animal another answer any anyone anything apartment
+apple april area arm around arrive art as ask at august aunt autumn away baby back bad bag bake ball banana band bank
+bath bathroom be beach bear beautiful because become bed bedroom before begin behind believe best better between bicycle
+big bike bird birthday bit black blue board boat body book boring born borrow both bottle box boy bread break breakfast
+bridge bring brother brown build building bus business busy but buy by cafe cake call camera camp can car card care
+careful carry cat catch chair change cheap check cheese chicken child chips chocolate choose cinema city class classroom
+clean clever climb clock close clothes cloud cloudy club coat coffee cold college colour come comfortable computer cook
+cool copy corner cost could country course cousin cream cross cup cut dad dance dangerous dark date daughter day dear
+december decide delicious dentist describe desk dictionary die different difficult dinner dirty do doctor dog door down
+draw dream dress drink drive during each ear early easy eat egg eight either else email end enjoy enough evening ever
+every everyone everything exam example excellent excited exciting exercise expensive explain eye face factory fall family
+famous fan far farm fast fat father favourite february feel few film find fine finish fire first fish five flat floor
+flower fly follow food foot football for forget fork free fresh friday friend friendly from front fruit full fun funny
+game garden get gift girl give glass go good grandfather grandmother grass great green grey group grow guitar hair half
+hand happen happy hard hat hate have he head healthy hear help her here hers high hill him his hobby holiday home homework
+hope horse hospital hot hotel hour house how hungry hurry husband i ice idea if ill important in information inside
+interested interesting into invite island it its jacket january jeans job join journey juice july jump june just keep
+key kind kitchen know lake language large last late later laugh learn leave left leg lesson let letter library life
+light like listen little live long look lose lot loud love lovely lucky lunch machine make man many map march market
+may maybe me meal meat meet message midnight milk minute miss moment monday money month more morning most mother mountain
+mouth move much mum museum music must my name near need never new news newspaper next nice night nine no nobody noise
+noisy noon nose not nothing november now number october of off office often old on once one only open or orange other
+our out outside over own page paint pair paper parent park part party pass pen pencil people perhaps person phone photo
+piano picnic picture piece pink pizza place plan plane plant play player please pocket police pool poor popular possible
+post potato practise prefer present pretty price problem programme pupil put question quick quiet quite rain read ready
+really reason red remember restaurant rice rich ride right river road room round rule run sad safe salad same sandwich
+saturday say school science sea season second see sell send september seven shall she shirt shoe shop short should
+show shower sick sing sister sit six skate ski sleep slow small smile snow so some someone something sometimes son song
+soon sorry sound soup speak special spend sport spring stand start station stay still stop story street strong student
+study subject summer sun sunday sunny supermarket sure swim table take talk tall taxi tea teach teacher team teenager
+television tell ten tennis tent terrible test than thank that the theatre their them then there they thing think third
+thirsty this those three through thursday ticket time tired to today together toilet tomorrow tonight too tooth towel
+town toy traffic train travel tree trip trousers true try tuesday turn twice two umbrella uncle under understand
+university until up us use useful usually vegetable very video village visit wait walk wall want warm wash watch water
+way we wear weather wednesday week weekend well wet what when where which white who why wife will win window winter with
+without woman wonderful word work world worry would write wrong year yellow yes yesterday yet you young your zoo
+`;
+
+// Irregular forms the suffix matching can't derive, plus other function words.
+const IRREGULAR_FORMS = `
+is are was were been being has had does did done went gone got made saw seen ate eaten came took taken gave given
+said told thought bought brought found felt met ran sat slept spoke swam wrote written won lost kept knew known heard
+sang began drank drove flew grew paid sent spent stood taught understood wore children men women feet teeth people
+these mine ours yours theirs myself yourself himself herself ourselves themselves everybody somebody nowhere somewhere
+anywhere everywhere eleven twelve thirteen fifteen twenty thirty hundred thousand ok okay
+`;
+
+export const A2_KEY_VOCABULARY: ReadonlySet<string> = new Set(`${WORDS} ${IRREGULAR_FORMS}`.trim().split(/\s+/));
@@ -0,0 +1,37 @@
+import type { CriterionId } from "../types";
+
+export interface MarkingCriterion {
+  id: CriterionId;
+  label: string;
+  shortLabel: string; // for chart axes
+  description: string; // what the examiner listens for, also used in prompts
+}
+
+// Cambridge A2 Key speaking: three analytic scales from the assessor plus
+// one holistic Global Achievement mark from the interlocutor, each 0-5.
+export const MARKING_CRITERIA: MarkingCriterion[] = [
+  {
+    id: 'grammarVocabulary',
+    label: "Grammar and Vocabulary",
+    shortLabel: "Grammar & Vocab",
+    description: "Control of simple grammatical forms and use of appropriate vocabulary for everyday topics.",
+  },
+  {
+    id: 'pronunciation',
+    label: "Pronunciation",
+    shortLabel: "Pronunciation",
+    description: "Intelligibility of individual sounds, word stress and intonation; how much effort the listener needs.",
+  },
+  {
+    id: 'interactiveCommunication',
+    label: "Interactive Communication",
+    shortLabel: "Interaction",
+    description: "Responding to the examiner and partner, keeping the exchange going, asking for repetition or clarification when needed.",
+  },
+  {
+    id: 'globalAchievement',
+    label: "Global Achievement",
+    shortLabel: "Global",
+    description: "The interlocutor's overall impression of how well the candidate handled the tasks.",
+  },
+];
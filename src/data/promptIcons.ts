@@ -0,0 +1,75 @@
+// The pictures for Part 2 prompt cards. Plans refer to them by id, so a plan
+// file stays plain JSON; `keywords` let a bare label find a fitting picture.
+// Plain data, shared with the server: the pictures themselves are in
+// components/promptIconImages.
+export const PROMPT_ICON_KEYWORDS = {
+  reading: ['book', 'read', 'library', 'story', 'magazine'],
+  gaming: ['game', 'video game', 'computer game', 'console'],
+  drawing: ['draw', 'paint', 'art', 'picture'],
+  music: ['music', 'song', 'sing', 'concert', 'dance'],
+  guitar: ['guitar', 'instrument', 'band', 'piano'],
+  headphones: ['listen', 'podcast', 'radio'],
+  film: ['film', 'movie', 'cinema'],
+  tv: ['tv', 'television', 'programme', 'show'],
+  theatre: ['theatre', 'drama', 'acting'],
+  photo: ['photo', 'camera', 'photography'],
+  sport: ['sport', 'competition', 'match', 'team'],
+  ball: ['football', 'basketball', 'volleyball', 'tennis', 'ball'],
+  gym: ['gym', 'exercise', 'fitness', 'training'],
+  swimming: ['swim', 'pool', 'sea', 'surf'],
+  cycling: ['bike', 'bicycle', 'cycling', 'cycle'],
+  walking: ['walk', 'hike', 'hiking', 'run', 'running'],
+  camping: ['camp', 'tent', 'camping'],
+  mountains: ['mountain', 'climb', 'ski', 'hill'],
+  beach: ['beach', 'island', 'holiday', 'sand'],
+  forest: ['forest', 'tree', 'park', 'countryside', 'nature'],
+  garden: ['garden', 'flower', 'plant'],
+  plane: ['plane', 'fly', 'airport', 'flight'],
+  train: ['train', 'station', 'railway'],
+  bus: ['bus', 'coach'],
+  car: ['car', 'drive', 'taxi'],
+  boat: ['boat', 'ship', 'ferry'],
+  pizza: ['pizza', 'fast food'],
+  salad: ['salad', 'vegetable', 'healthy food'],
+  sandwich: ['sandwich', 'picnic', 'lunch'],
+  fruit: ['fruit', 'apple', 'banana', 'orange'],
+  cake: ['cake', 'dessert', 'birthday'],
+  ice_cream: ['ice cream', 'sweet'],
+  drink: ['coffee', 'tea', 'drink', 'cafe'],
+  restaurant: ['restaurant', 'eat out', 'dinner', 'meal'],
+  cooking: ['cook', 'bake', 'kitchen', 'chef'],
+  party: ['party', 'celebrate', 'celebration', 'festival'],
+  present: ['present', 'gift'],
+  clothes: ['clothes', 'shirt', 't-shirt', 'jacket', 'wear'],
+  shopping: ['shop', 'shopping', 'market', 'buy'],
+  school_bag: ['bag', 'backpack', 'pack'],
+  dog: ['dog', 'pet', 'puppy'],
+  cat: ['cat', 'kitten'],
+  bird: ['bird', 'parrot'],
+  fish: ['fish', 'fishing', 'aquarium'],
+  sun: ['sun', 'sunny', 'summer', 'hot'],
+  rain: ['rain', 'rainy', 'umbrella'],
+  snow: ['snow', 'winter', 'cold'],
+  home: ['home', 'house', 'flat', 'family'],
+  city: ['city', 'town', 'building', 'apartment'],
+  school: ['school', 'class', 'lesson', 'study', 'homework'],
+  museum: ['museum', 'gallery', 'history'],
+  phone: ['phone', 'mobile', 'text', 'message', 'app'],
+  computer: ['computer', 'laptop', 'internet', 'online'],
+  doctor: ['doctor', 'hospital', 'health', 'ill'],
+  idea: [], // fallback
+} satisfies Record<string, string[]>;
+
+export type PromptIconId = keyof typeof PROMPT_ICON_KEYWORDS;
+
+export const PROMPT_ICON_IDS: string[] = Object.keys(PROMPT_ICON_KEYWORDS);
+
+export const FALLBACK_ICON: PromptIconId = 'idea';
+
+// Picks a picture for a label like "Playing football"; whole-word matches only
+export const findPromptIcon = (label: string): PromptIconId => {
+  const text = ` ${label.toLowerCase().replace(/[^a-z\s-]/g, ' ')} `;
+  const match = (Object.entries(PROMPT_ICON_KEYWORDS) as [PromptIconId, string[]][]).find(([, keywords]) =>
+    keywords.some(keyword => new RegExp(`\\s${keyword}(s|es|ing)?\\s`).test(text)));
+  return match ? match[0] : FALLBACK_ICON;
+};
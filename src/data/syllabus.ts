@@ -0,0 +1,84 @@
+// The 30-day challenge as a fixed course: every day maps to one official
+// A2 Key topic area, the language functions it practises and a difficulty step.
+// Plans are generated from these entries, so the same day always asks for the
+// same kind of test and later days build on earlier ones.
+
+export type DifficultyStep = 1 | 2 | 3 | 4 | 5;
+
+export interface SyllabusEntry {
+  day: number;
+  topicArea: string; // as named in the A2 Key vocabulary list
+  focus: string; // the day's angle on the topic, shown to learners
+  functions: string[]; // what the questions should make learners do
+  step: DifficultyStep;
+}
+
+export const DIFFICULTY_STEPS: Record<DifficultyStep, { label: string, guidance: string }> = {
+  1: {
+    label: "Getting started",
+    guidance: "Short, concrete questions in the present simple about the learner's own life. Part 2 offers two clear options.",
+  },
+  2: {
+    label: "Adding detail",
+    guidance: "Questions that invite a reason or an example. Mix present simple with 'can' and 'like + -ing'. Part 2 offers three options.",
+  },
+  3: {
+    label: "Past and future",
+    guidance: "Include at least one past simple and one future ('going to' / 'will') question. Part 2 asks learners to choose and explain.",
+  },
+  4: {
+    label: "Comparing and linking",
+    guidance: "Ask learners to compare things and link ideas with 'because', 'but' and 'so'. Part 2 asks them to agree or disagree with each other.",
+  },
+  5: {
+    label: "Exam ready",
+    guidance: "Full exam-style questions at A2 Key level, including 'Why?' follow-ups and a Part 2 discussion that needs a joint decision.",
+  },
+};
+
+const stepForDay = (day: number): DifficultyStep => Math.min(5, Math.floor((day - 1) / 6) + 1) as DifficultyStep;
+
+const ENTRIES: Omit<SyllabusEntry, 'day' | 'step'>[] = [
+  { topicArea: "People", focus: "Me and my family", functions: ["giving personal information", "describing people"] },
+  { topicArea: "Daily life", focus: "My day", functions: ["describing routines", "telling the time"] },
+  { topicArea: "Hobbies and leisure", focus: "Free time", functions: ["expressing likes and dislikes", "saying how often"] },
+  { topicArea: "School and study", focus: "My school", functions: ["describing places", "expressing likes and dislikes"] },
+  { topicArea: "Food and drink", focus: "What I eat", functions: ["expressing preferences", "describing routines"] },
+  { topicArea: "House and home", focus: "Where I live", functions: ["describing places", "giving personal information"] },
+  { topicArea: "Clothes", focus: "What I wear", functions: ["describing things", "giving reasons"] },
+  { topicArea: "Sport", focus: "Sports I play and watch", functions: ["talking about abilities", "giving reasons"] },
+  { topicArea: "Weather", focus: "Weather and seasons", functions: ["describing the weather", "expressing preferences"] },
+  { topicArea: "Shopping", focus: "Going shopping", functions: ["asking and answering about prices", "giving examples"] },
+  { topicArea: "Entertainment and media", focus: "Films, TV and music", functions: ["expressing opinions", "giving reasons"] },
+  { topicArea: "Places and buildings", focus: "My town", functions: ["describing places", "giving directions"] },
+  { topicArea: "Travel and holidays", focus: "My last holiday", functions: ["talking about the past", "describing experiences"] },
+  { topicArea: "Transport", focus: "Getting around", functions: ["talking about the past", "expressing preferences"] },
+  { topicArea: "Health, medicine and exercise", focus: "Staying healthy", functions: ["giving advice", "describing routines"] },
+  { topicArea: "Work and jobs", focus: "Jobs and the future", functions: ["talking about future plans", "giving reasons"] },
+  { topicArea: "Communications and technology", focus: "Phones and the internet", functions: ["describing habits", "talking about the past"] },
+  { topicArea: "The natural world", focus: "Animals and nature", functions: ["describing things", "talking about future plans"] },
+  { topicArea: "Personal feelings, opinions and experiences", focus: "Best and worst days", functions: ["describing feelings", "comparing"] },
+  { topicArea: "Social interaction", focus: "Parties and celebrations", functions: ["making suggestions", "agreeing and disagreeing"] },
+  { topicArea: "Food and drink", focus: "Eating out", functions: ["comparing", "making suggestions"] },
+  { topicArea: "Hobbies and leisure", focus: "Trying something new", functions: ["comparing", "talking about future plans"] },
+  { topicArea: "Travel and holidays", focus: "Planning a trip", functions: ["making suggestions", "agreeing and disagreeing"] },
+  { topicArea: "Services", focus: "Places that help us", functions: ["describing places", "comparing"] },
+  { topicArea: "School and study", focus: "Learning and homework", functions: ["giving opinions", "agreeing and disagreeing", "giving reasons"] },
+  { topicArea: "Language", focus: "Learning English", functions: ["talking about the past", "giving advice", "talking about future plans"] },
+  { topicArea: "Sport", focus: "A sports day for our class", functions: ["making suggestions", "reaching a decision"] },
+  { topicArea: "Entertainment and media", focus: "A weekend out", functions: ["comparing", "agreeing and disagreeing", "reaching a decision"] },
+  { topicArea: "People", focus: "People I admire", functions: ["describing people", "giving reasons", "talking about the past"] },
+  { topicArea: "Daily life", focus: "Exam day review", functions: ["giving personal information", "giving reasons", "reaching a decision"] },
+];
+
+export const SYLLABUS: SyllabusEntry[] = ENTRIES.map((entry, i) => ({ ...entry, day: i + 1, step: stepForDay(i + 1) }));
+
+export const getSyllabusEntry = (day: number): SyllabusEntry => {
+  const entry = SYLLABUS.find(e => e.day === day);
+  if (!entry) throw new Error(`Day ${day} is not part of the syllabus`);
+  return entry;
+};
+
+// Functions from the previous two days, so a plan can recycle them
+export const getReviewFunctions = (day: number): string[] =>
+  [...new Set(SYLLABUS.filter(e => e.day < day && e.day >= day - 2).flatMap(e => e.functions))];
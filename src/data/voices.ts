@@ -0,0 +1,7 @@
+// Gemini's prebuilt TTS voices; Kore, a clear and firm voice, is the default examiner
+export const GEMINI_VOICES = [
+  'Kore', 'Charon', 'Puck', 'Zephyr', 'Fenrir', 'Leda', 'Orus', 'Aoede', 'Callirrhoe', 'Autonoe', 'Enceladus',
+  'Iapetus', 'Umbriel', 'Algieba', 'Despina', 'Erinome', 'Algenib', 'Rasalgethi', 'Laomedeia', 'Achernar',
+  'Alnilam', 'Schedar', 'Gacrux', 'Pulcherrima', 'Achird', 'Zubenelgenubi', 'Vindemiatrix', 'Sadachbia',
+  'Sadaltager', 'Sulafat',
+];
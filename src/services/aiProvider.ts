@@ -0,0 +1,59 @@
+import type { DailyPlan, FullReport, Question, SessionData, SpeakingRate, Student } from "../types";
+import { createProxyProvider } from "./providers/proxyProvider";
+import { createLocalProvider } from "./providers/localProvider";
+import type { SyllabusEntry } from "../data/syllabus";
+
+export type AiProviderId = 'gemini' | 'proxy' | 'local';
+
+// The Gemini provider needs the API key, so only the server (server/) creates it
+type BrowserProviderId = Exclude<AiProviderId, 'gemini'>;
+
+// Everything the app needs from an AI backend. Playback, caching, the browser
+// speech fallback and timeouts/retries live in geminiService and are shared by
+// all providers. Every call takes an optional AbortSignal as its last argument.
+export interface AiProvider {
+  id: AiProviderId;
+  label: string;
+  // Voices synthesizeSpeech can speak with, the default first; empty when the
+  // provider has no voice of its own.
+  voices: string[];
+  // Whether transcribeAudio works; browsers without speech recognition rely on
+  // it, and fall back to typing when it doesn't.
+  canTranscribe: boolean;
+  // The plan for one syllabus day; its topic is the entry's focus.
+  generateDayPlan: (entry: SyllabusEntry, students: [Student, Student], signal?: AbortSignal) => Promise<DailyPlan>;
+  // Resolves to null when the provider has no voice of its own.
+  synthesizeSpeech: (text: string, voice: string, rate: SpeakingRate, signal?: AbortSignal) => Promise<Blob | null>;
+  // What the learner says in a recording, mistakes and all. `lang` is a BCP 47
+  // tag such as "en-GB". Resolves to null when the provider cannot transcribe.
+  transcribeAudio: (audio: Blob, lang: string, signal?: AbortSignal) => Promise<string | null>;
+  evaluateSession: (plan: DailyPlan, sessionData: SessionData, signal?: AbortSignal) => Promise<FullReport>;
+  // An A2-level answer for the AI partner. `learnerAnswer` is what the human
+  // said to the same question, if they went first. In a Part 2 conversation
+  // `conversation` holds the turns so far, one "Name: text" line each.
+  generatePartnerAnswer: (plan: DailyPlan, question: Question, partner: Student, learnerAnswer?: string, conversation?: string[], signal?: AbortSignal) => Promise<string>;
+  // A short examiner back-up prompt ("Why?", "Tell me more about...") after a thin answer.
+  generateFollowUp: (plan: DailyPlan, question: Question, learner: Student, answer: string, signal?: AbortSignal) => Promise<string>;
+}
+
+let activeProvider: AiProvider | null = null;
+
+// VITE_AI_PROVIDER=local runs offline; otherwise every call goes through the app server.
+const resolveProviderId = (): BrowserProviderId =>
+  (process.env.AI_PROVIDER === 'local' ? 'local' : 'proxy');
+
+export const createAiProvider = (id: BrowserProviderId): AiProvider => {
+  switch (id) {
+    case 'proxy':
+      return createProxyProvider(process.env.API_BASE_URL ?? "");
+    case 'local':
+      return createLocalProvider();
+  }
+};
+
+export const getAiProvider = (): AiProvider => {
+  if (!activeProvider) {
+    activeProvider = createAiProvider(resolveProviderId());
+  }
+  return activeProvider;
+};
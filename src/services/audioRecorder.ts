@@ -0,0 +1,116 @@
+// --- Per-turn microphone recording (MediaRecorder) ---
+
+// One recorder covers one answer. Record/Stop/Resume in StudentBox map to
+// start/pause/resume so the whole turn ends up in a single playable clip.
+export interface TurnRecorder {
+  start: () => Promise<void>;
+  pause: () => void;
+  resume: () => void;
+  // Everything recorded so far as one playable clip, without stopping
+  snapshot: () => Promise<Blob | null>;
+  stop: () => Promise<Blob | null>;
+  cancel: () => void;
+}
+
+export const isRecordingSupported = () =>
+  typeof window !== 'undefined' &&
+  typeof MediaRecorder !== 'undefined' &&
+  !!navigator.mediaDevices?.getUserMedia;
+
+// Prefer a widely playable container; Safari only offers mp4.
+const pickMimeType = () => {
+  const candidates = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg;codecs=opus'];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type));
+};
+
+export const createTurnRecorder = (): TurnRecorder => {
+  let stream: MediaStream | null = null;
+  let recorder: MediaRecorder | null = null;
+  let startPromise: Promise<void> | null = null;
+  let cancelled = false;
+  const chunks: Blob[] = [];
+
+  const releaseStream = () => {
+    stream?.getTracks().forEach(track => track.stop());
+    stream = null;
+  };
+
+  const start = () => {
+    if (startPromise) return startPromise;
+    startPromise = (async () => {
+      if (!isRecordingSupported()) return;
+      const media = await navigator.mediaDevices.getUserMedia({ audio: true });
+      if (cancelled) {
+        media.getTracks().forEach(track => track.stop());
+        return;
+      }
+      stream = media;
+      const mimeType = pickMimeType();
+      recorder = new MediaRecorder(media, mimeType ? { mimeType } : undefined);
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.start();
+    })();
+    return startPromise;
+  };
+
+  const pause = () => {
+    if (recorder?.state === 'recording') recorder.pause();
+  };
+
+  const resume = () => {
+    if (recorder?.state === 'paused') recorder.resume();
+  };
+
+  const snapshot = async (): Promise<Blob | null> => {
+    try {
+      await startPromise;
+    } catch {
+      return null;
+    }
+    const active = recorder;
+    if (!active || active.state === 'inactive') return null;
+
+    // requestData flushes what the recorder has buffered into ondataavailable
+    const flushed = new Promise<void>(resolve => {
+      active.addEventListener('dataavailable', () => resolve(), { once: true });
+    });
+    active.requestData();
+    await flushed;
+
+    return chunks.length > 0 ? new Blob(chunks, { type: active.mimeType || chunks[0].type }) : null;
+  };
+
+  const stop = async (): Promise<Blob | null> => {
+    try {
+      await startPromise;
+    } catch {
+      // Mic permission denied or no device: the answer simply has no audio
+    }
+    const active = recorder;
+    if (!active || active.state === 'inactive') {
+      releaseStream();
+      return null;
+    }
+
+    const stopped = new Promise<void>(resolve => {
+      active.onstop = () => resolve();
+    });
+    active.stop();
+    await stopped;
+    releaseStream();
+
+    return chunks.length > 0 ? new Blob(chunks, { type: active.mimeType || chunks[0].type }) : null;
+  };
+
+  const cancel = () => {
+    cancelled = true;
+    if (recorder && recorder.state !== 'inactive') {
+      try { recorder.stop(); } catch (e) { console.warn("Error stopping recorder", e); }
+    }
+    releaseStream();
+  };
+
+  return { start, pause, resume, snapshot, stop, cancel };
+};
@@ -0,0 +1,5 @@
+// Minutes and seconds left, rounded up so a countdown never shows 0:00 early
+export const formatClock = (ms: number) => {
+  const total = Math.ceil(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,33 @@
+import type { ConversationSettings, DialogueTurn, Question, SessionData, Seat } from "../types";
+import { getFullAnswer } from "./followUp";
+import { seatKey } from "./turnOrder";
+
+// --- Part 2 conversations: the two learners take turns on one question ---
+
+export const isConversationQuestion = (question: Question, settings: ConversationSettings): boolean =>
+  settings.enabled && question.part === 'Part 2' && question.target === 'Both';
+
+export const isConversationOver = (dialogue: DialogueTurn[], startedAt: number, settings: ConversationSettings, now = Date.now()): boolean =>
+  dialogue.length >= settings.maxTurns || now - startedAt >= settings.minutes * 60000;
+
+// "Tom: I like swimming. Do you?" — one line per turn, for prompts
+export const formatDialogue = (sessionData: SessionData, dialogue: DialogueTurn[]): string[] =>
+  dialogue.map(turn => `${sessionData[seatKey(turn.seat)].student.name}: ${turn.text || "(no answer)"}`);
+
+// Everything one learner said for a question: their answer, any follow-up
+// reply and their lines in the conversation.
+export const getSeatText = (sessionData: SessionData, seat: Seat, questionId: string): string => {
+  const lines = (sessionData.dialogues?.[questionId] ?? []).filter(t => t.seat === seat).map(t => t.text.trim());
+  return [getFullAnswer(sessionData[seatKey(seat)], questionId), ...lines].filter(Boolean).join(' ');
+};
+
+// Question ids a learner said anything for
+export const getSpokenQuestionIds = (sessionData: SessionData, seat: Seat): string[] => {
+  const student = sessionData[seatKey(seat)];
+  const ids = new Set([
+    ...Object.keys(student.answers),
+    ...Object.keys(student.followUps ?? {}),
+    ...Object.keys(sessionData.dialogues ?? {}),
+  ]);
+  return [...ids].filter(id => getSeatText(sessionData, seat, id).length > 0);
+};
@@ -0,0 +1,70 @@
+// --- IndexedDB helpers shared by the local stores ---
+
+const DB_NAME = 'ket-speaking-prep';
+const DB_VERSION = 4;
+
+export const STORE_SESSIONS = 'sessions';
+export const STORE_PLANS = 'plans'; // v2: one DailyPlan per day
+export const STORE_QUESTION_BANK = 'questionBank'; // v3: BankQuestion by id
+export const STORE_SPEECH = 'speech'; // v4: synthesised examiner audio by text and voice
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORE_SESSIONS)) {
+    const sessions = db.createObjectStore(STORE_SESSIONS, { keyPath: 'id' });
+    sessions.createIndex('timestamp', 'timestamp');
+  }
+  if (!db.objectStoreNames.contains(STORE_PLANS)) {
+    db.createObjectStore(STORE_PLANS, { keyPath: 'day' });
+  }
+  if (!db.objectStoreNames.contains(STORE_QUESTION_BANK)) {
+    db.createObjectStore(STORE_QUESTION_BANK, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORE_SPEECH)) {
+    const speech = db.createObjectStore(STORE_SPEECH, { keyPath: 'key' });
+    speech.createIndex('storedAt', 'storedAt');
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => upgrade(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed (e.g. private browsing).
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `run` against a single object store and resolves once the transaction commits.
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const result = requestToPromise(run(tx.objectStore(storeName)));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  return result;
+};
@@ -0,0 +1,23 @@
+import type { FollowUpSettings, Question, StudentSessionData } from "../types";
+
+// --- Examiner back-up prompts ("Why?", "Tell me more...") ---
+
+const REASON_WORDS = /\b(because|so|but|and|for example|when|if)\b/i;
+
+// Judged on the transcript alone, so it is instant and costs nothing: the
+// model is only asked to word the follow-up once one is needed.
+export const needsFollowUp = (question: Question, answer: string, settings: FollowUpSettings): boolean => {
+  if (!settings.enabled) return false;
+  const words = answer.trim().split(/\s+/).filter(Boolean).length;
+  if (words === 0) return false; // nothing said: a follow-up won't help, move on
+  if (words < settings.minWords) return true;
+  // Part 2 is a discussion: an opinion with no reason or detail is thin however long it is
+  return question.part === 'Part 2' && !REASON_WORDS.test(answer);
+};
+
+// The first answer and the reply to the follow-up, read as one answer
+export const getFullAnswer = (seat: StudentSessionData, questionId: string): string => {
+  const first = seat.answers[questionId]?.trim() ?? "";
+  const followUp = seat.followUps?.[questionId]?.answer.trim();
+  return followUp ? `${first} ${followUp}`.trim() : first;
+};
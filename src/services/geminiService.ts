@@ -1,71 +1,23 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-import type { DailyPlan, FullReport, SessionData } from "../types";
+import type { DailyPlan, EvaluationResult, FullReport, Question, SessionData, SpeakingRate, Student, StudentSessionData, VoiceSettings } from "../types";
+import { getAiProvider } from "./aiProvider";
+import type { SyllabusEntry } from "../data/syllabus";
+import { getSpokenQuestionIds } from "./conversation";
+import { seatKey } from "./turnOrder";
+import { runRequest, type RequestOptions } from "./request";
+import { cacheUrl, getCachedUrl, loadStoredSpeech, releaseUrl, retainUrl, speechCacheKey, storeSpeech } from "./speechCache";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-// --- Audio Types & Cache ---
+// --- Audio playback ---
 
 let currentAudio: HTMLAudioElement | null = null;
+let currentAudioUrl: string | null = null;
 let latestTtsRequestId = 0;
-const audioCache = new Map<string, string>(); // Cache text -> Blob URL
-
-// --- Helpers ---
-
-// Gemini TTS is 24kHz, 1 channel, 16-bit PCM
-const SAMPLE_RATE = 24000;
-
-function base64ToUint8Array(base64: string): Uint8Array {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
-function createWavBlob(pcmData: Uint8Array): Blob {
-  const numChannels = 1;
-  const bitsPerSample = 16;
-  const byteRate = (SAMPLE_RATE * numChannels * bitsPerSample) / 8;
-  const blockAlign = (numChannels * bitsPerSample) / 8;
-  const dataSize = pcmData.length;
-  const headerSize = 44;
-  
-  const buffer = new ArrayBuffer(headerSize + dataSize);
-  const view = new DataView(buffer);
-
-  const writeString = (offset: number, string: string) => {
-    for (let i = 0; i < string.length; i++) {
-      view.setUint8(offset + i, string.charCodeAt(i));
-    }
-  };
 
-  // RIFF chunk descriptor
-  writeString(0, 'RIFF');
-  view.setUint32(4, 36 + dataSize, true); // ChunkSize
-  writeString(8, 'WAVE');
-
-  // fmt sub-chunk
-  writeString(12, 'fmt ');
-  view.setUint32(16, 16, true); // Subchunk1Size (16 for PCM)
-  view.setUint16(20, 1, true); // AudioFormat (1 for PCM)
-  view.setUint16(22, numChannels, true); // NumChannels
-  view.setUint32(24, SAMPLE_RATE, true); // SampleRate
-  view.setUint32(28, byteRate, true); // ByteRate
-  view.setUint16(32, blockAlign, true); // BlockAlign
-  view.setUint16(34, bitsPerSample, true); // BitsPerSample
-
-  // data sub-chunk
-  writeString(36, 'data');
-  view.setUint32(40, dataSize, true); // Subchunk2Size
-
-  // Write PCM data
-  const pcmBytes = new Uint8Array(buffer, headerSize);
-  pcmBytes.set(pcmData);
-
-  return new Blob([buffer], { type: 'audio/wav' });
-}
+// Hands the URL back to the speech cache, which may now revoke it
+const finishAudio = () => {
+  if (currentAudioUrl) releaseUrl(currentAudioUrl);
+  currentAudio = null;
+  currentAudioUrl = null;
+};
 
 export const isAudioPlaying = () => {
     return !!currentAudio && !currentAudio.paused;
@@ -79,10 +31,10 @@ export const stopAllAudio = () => {
       // We just pause and nullify.
       currentAudio.src = ""; 
       currentAudio.removeAttribute("src");
-      currentAudio = null;
     } catch (e) {
       console.warn("Error stopping audio", e);
     }
+    finishAudio();
   }
 
   // Cancel Browser Synthesis fallback
@@ -91,102 +43,120 @@ export const stopAllAudio = () => {
   }
 };
 
+const BROWSER_RATES: Record<SpeakingRate, number> = {
+  'normal': 1,
+  'slow': 0.85,
+  'very slow': 0.7,
+};
+
+// Browser speech synthesis, used when the provider has no voice or TTS fails
+const speakWithBrowser = (text: string, settings: VoiceSettings): boolean => {
+  if (typeof window === 'undefined' || !window.speechSynthesis) return false;
+
+  stopAllAudio();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = settings.accent;
+  utterance.rate = BROWSER_RATES[settings.rate];
+  // Setting lang alone does not always switch voices; pick one for the accent when the browser has it
+  const voice = window.speechSynthesis.getVoices().find(v => v.lang.replace('_', '-') === settings.accent);
+  if (voice) utterance.voice = voice;
+  try {
+      window.speechSynthesis.speak(utterance);
+      return true;
+  } catch {
+      return false;
+  }
+};
+
 // --- Services ---
 
-export const generateDayPlan = async (day: number): Promise<DailyPlan> => {
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: `Generate a KET (A2 Key) speaking test plan for Day ${day} of a 30-day challenge.
-    The plan must include a mix of Part 1 (Interview/Personal questions) and Part 2 (Discussion/Phase 2) questions.
-    Provide exactly 5 distinct questions/prompts.
-    The students are named "Tom" and "Bella".
-    For "target", specify if the question is for "Tom", "Bella", or "Both".
-    Topic should be specific to this day (e.g., Hobbies, Travel, School, Food).`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          day: { type: Type.INTEGER },
-          topic: { type: Type.STRING },
-          questions: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                id: { type: Type.STRING },
-                text: { type: Type.STRING },
-                part: { type: Type.STRING, enum: ["Part 1", "Part 2"] },
-                target: { type: Type.STRING, enum: ["Tom", "Bella", "Both"] },
-              },
-              required: ["id", "text", "part", "target"],
-            },
-          },
-        },
-      },
-    },
-  });
-
-  const text = response.text;
-  if (!text) throw new Error("No plan generated");
-  return JSON.parse(text) as DailyPlan;
+// Per-attempt time limits. Evaluation uploads the recordings, so it gets the longest.
+const TIMEOUTS_MS = {
+  plan: 60000,
+  speech: 20000,
+  evaluation: 120000,
+  partner: 20000,
+  followUp: 15000,
+  transcription: 30000,
 };
 
-export const playTextToSpeech = async (text: string): Promise<boolean> => {
-  const requestId = ++latestTtsRequestId;
+export const getProviderLabel = () => getAiProvider().label;
 
-  try {
-    // 1. Check Cache first
-    if (audioCache.has(text)) {
-      stopAllAudio();
-      if (requestId !== latestTtsRequestId) return false;
-      
-      const audioUrl = audioCache.get(text)!;
-      const audio = new Audio(audioUrl);
-      currentAudio = audio;
-      
-      try {
-        await audio.play();
-        return true;
-      } catch (err) {
-        console.warn("Cached playback failed (likely autoplay policy):", err);
-        return false;
-      }
-    }
+export const getProviderVoices = () => getAiProvider().voices;
+
+export const canTranscribeAudio = () => getAiProvider().canTranscribe;
+
+// Speech-to-text for browsers without speech recognition. Null when the provider cannot transcribe.
+export const transcribeAudio = async (audio: Blob, lang: string, options?: RequestOptions): Promise<string | null> =>
+  runRequest(signal => getAiProvider().transcribeAudio(audio, lang, signal), { timeoutMs: TIMEOUTS_MS.transcription, retries: 1, ...options });
+
+export const generateDayPlan = async (entry: SyllabusEntry, students: [Student, Student], options?: RequestOptions): Promise<DailyPlan> => {
+  const plan = await runRequest(signal => getAiProvider().generateDayPlan(entry, students, signal), { timeoutMs: TIMEOUTS_MS.plan, ...options });
+  return { ...plan, source: 'generated' };
+};
+
+// Only the plan's questions (registered by prefetchSpeech) are written to IndexedDB;
+// one-off lines such as AI partner answers and follow-ups stay in memory, so they
+// never push the questions out.
+const planSpeechKeys = new Set<string>();
+
+const pendingSpeech = new Map<string, Promise<string | null>>();
+
+const getSpeechKey = (text: string, settings: VoiceSettings) => {
+  const provider = getAiProvider();
+  const voice = provider.voices.includes(settings.voice) ? settings.voice : provider.voices[0];
+  return { provider, voice, key: speechCacheKey(`${provider.id}:${voice}:${settings.rate}`, text) };
+};
 
-    // 2. Fetch from API if not cached
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' },
-          },
-        },
-      },
+// Resolves to a playable URL for `text` in the chosen voice and rate, looking in
+// memory, then IndexedDB, then asking the provider; null when it has no voice.
+// Concurrent requests for the same words share one provider call.
+const getSpeechUrl = (text: string, settings: VoiceSettings): Promise<string | null> => {
+  const { provider, voice, key } = getSpeechKey(text, settings);
+  if (provider.voices.length === 0) return Promise.resolve(null);
+
+  const cached = getCachedUrl(key);
+  if (cached) return Promise.resolve(cached);
+  const pending = pendingSpeech.get(key);
+  if (pending) return pending;
+
+  const request = (async () => {
+    const stored = await loadStoredSpeech(key).catch(err => {
+      console.warn("Could not read stored speech", err);
+      return undefined;
     });
+    if (stored) return cacheUrl(key, stored);
 
-    if (requestId !== latestTtsRequestId) return false;
+    // One quick retry, then the browser voice takes over
+    const wavBlob = await runRequest(signal => provider.synthesizeSpeech(text, voice, settings.rate, signal), { timeoutMs: TIMEOUTS_MS.speech, retries: 1 });
+    if (!wavBlob) return null;
+    if (planSpeechKeys.has(key)) storeSpeech(key, wavBlob).catch(err => console.warn("Could not store speech", err));
+    return cacheUrl(key, wavBlob);
+  })().finally(() => pendingSpeech.delete(key));
 
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) throw new Error("No audio data returned");
+  pendingSpeech.set(key, request);
+  return request;
+};
 
-    // 3. Convert raw PCM to WAV Blob
-    const pcmBytes = base64ToUint8Array(base64Audio);
-    const wavBlob = createWavBlob(pcmBytes);
-    const audioUrl = URL.createObjectURL(wavBlob);
+export const playTextToSpeech = async (text: string, settings: VoiceSettings): Promise<boolean> => {
+  const requestId = ++latestTtsRequestId;
 
-    // 4. Cache it
-    audioCache.set(text, audioUrl);
+  try {
+    const audioUrl = await getSpeechUrl(text, settings);
 
-    // 5. Play
-    stopAllAudio();
     if (requestId !== latestTtsRequestId) return false;
+    if (!audioUrl) return speakWithBrowser(text, settings);
 
+    stopAllAudio();
     const audio = new Audio(audioUrl);
     currentAudio = audio;
+    currentAudioUrl = audioUrl;
+    retainUrl(audioUrl);
+    audio.onended = () => {
+        if (currentAudio === audio) {
+            finishAudio();
+        }
+    };
 
     try {
         await audio.play();
@@ -195,120 +165,81 @@ export const playTextToSpeech = async (text: string): Promise<boolean> => {
         console.warn("Audio play failed (likely autoplay policy):", err);
         return false;
     }
-
-    audio.onended = () => {
-        if (currentAudio === audio) {
-            currentAudio = null;
-        }
-    };
-
   } catch (error) {
     if (requestId !== latestTtsRequestId) return false;
     console.error("TTS Error:", error);
     
     // Fallback to browser TTS (often allowed without user gesture if simple)
-    if (typeof window !== 'undefined' && window.speechSynthesis) {
-        stopAllAudio();
-        const utterance = new SpeechSynthesisUtterance(text);
-        utterance.lang = 'en-GB';
-        try {
-            window.speechSynthesis.speak(utterance);
-            return true;
-        } catch (e) {
-            return false;
-        }
+    return speakWithBrowser(text, settings);
+  }
+};
+
+// Synthesises the texts one at a time in the background, so each question
+// starts without waiting, and marks them for IndexedDB. Aborting stops before the next text.
+export const prefetchSpeech = async (texts: string[], settings: VoiceSettings, signal?: AbortSignal): Promise<void> => {
+  // Registered up front, so a question played before its turn here is stored too
+  texts.forEach(text => planSpeechKeys.add(getSpeechKey(text, settings).key));
+  for (const text of texts) {
+    if (signal?.aborted) return;
+    try {
+      if (await getSpeechUrl(text, settings) === null) return; // no voice of its own: nothing to fetch
+    } catch (err) {
+      console.warn("Speech prefetch failed", err);
     }
-    return false;
   }
-  return false;
 };
 
+export const generatePartnerAnswer = async (
+  plan: DailyPlan,
+  question: Question,
+  partner: Student,
+  learnerAnswer?: string,
+  conversation?: string[],
+  options?: RequestOptions
+): Promise<string> => {
+  return runRequest(signal => getAiProvider().generatePartnerAnswer(plan, question, partner, learnerAnswer, conversation, signal),
+    { timeoutMs: TIMEOUTS_MS.partner, ...options });
+};
+
+export const generateFollowUp = async (
+  plan: DailyPlan,
+  question: Question,
+  learner: Student,
+  answer: string,
+  options?: RequestOptions
+): Promise<string> => {
+  // A follow-up is optional, so it is not worth keeping the learners waiting for retries
+  return runRequest(signal => getAiProvider().generateFollowUp(plan, question, learner, answer, signal),
+    { timeoutMs: TIMEOUTS_MS.followUp, retries: 0, ...options });
+};
+
+const emptyResult = (student: StudentSessionData): EvaluationResult | null =>
+  student.student.isAi ? null : {
+      score: 0,
+      feedback: "No answers recorded.",
+      goodPoints: [],
+      badPoints: ["No speech input detected."],
+      suggestions: ["Check microphone settings."]
+  };
+
 export const evaluateSession = async (
   plan: DailyPlan,
-  sessionData: SessionData
+  sessionData: SessionData,
+  options?: RequestOptions
 ): Promise<FullReport> => {
   
-  const hasTomAnswers = Object.keys(sessionData.studentA.answers).length > 0;
-  const hasBellaAnswers = Object.keys(sessionData.studentB.answers).length > 0;
+  // Only human learners count; the AI partner always has answers.
+  // Follow-up replies and conversation turns count as answers too.
+  const hasLearnerAnswers = (['A', 'B'] as const)
+      .some(seat => !sessionData[seatKey(seat)].student.isAi && getSpokenQuestionIds(sessionData, seat).length > 0);
 
-  if (!hasTomAnswers && !hasBellaAnswers) {
+  if (!hasLearnerAnswers) {
       return {
-          studentA: {
-              score: 0,
-              feedback: "No answers recorded.",
-              goodPoints: [],
-              badPoints: ["No speech input detected."],
-              suggestions: ["Check microphone settings."]
-          },
-          studentB: {
-              score: 0,
-              feedback: "No answers recorded.",
-              goodPoints: [],
-              badPoints: ["No speech input detected."],
-              suggestions: ["Check microphone settings."]
-          },
+          studentA: emptyResult(sessionData.studentA),
+          studentB: emptyResult(sessionData.studentB),
           generalFeedback: "Session ended without any recorded answers."
       };
   }
 
-  const prompt = `
-    Role: KET (A2 Key) Speaking Examiner.
-    Task: Evaluate the following session for Day ${plan.day}: ${plan.topic}.
-    
-    The students are Tom (Student A) and Bella (Student B).
-    
-    IMPORTANT: 
-    - "studentA" in the JSON output corresponds to Tom.
-    - "studentB" in the JSON output corresponds to Bella.
-    - If the user finished early, only evaluate answered questions. Do not penalize for missing questions.
-    
-    Questions in Plan:
-    ${plan.questions.map(q => `- [${q.id}] ${q.text} (Target: ${q.target})`).join('\n')}
-
-    Tom (Student A) Answers:
-    ${JSON.stringify(sessionData.studentA.answers)}
-
-    Bella (Student B) Answers:
-    ${JSON.stringify(sessionData.studentB.answers)}
-
-    Provide a strict JSON report. Score 0-5.
-  `;
-
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          studentA: {
-            type: Type.OBJECT,
-            properties: {
-              score: { type: Type.NUMBER },
-              feedback: { type: Type.STRING },
-              goodPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
-              badPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
-              suggestions: { type: Type.ARRAY, items: { type: Type.STRING } },
-            },
-          },
-          studentB: {
-            type: Type.OBJECT,
-            properties: {
-              score: { type: Type.NUMBER },
-              feedback: { type: Type.STRING },
-              goodPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
-              badPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
-              suggestions: { type: Type.ARRAY, items: { type: Type.STRING } },
-            },
-          },
-          generalFeedback: { type: Type.STRING },
-        },
-      },
-    },
-  });
-
-  const text = response.text;
-  if (!text) throw new Error("Failed to generate report");
-  return JSON.parse(text) as FullReport;
-};
\ No newline at end of file
+  return runRequest(signal => getAiProvider().evaluateSession(plan, sessionData, signal), { timeoutMs: TIMEOUTS_MS.evaluation, ...options });
+};
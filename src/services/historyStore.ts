@@ -0,0 +1,50 @@
+import type { DailyPlan, FullReport, SessionData, SessionRecord } from "../types";
+import { STORE_SESSIONS, withStore } from "./db";
+import { createId } from "./ids";
+import { DEFAULT_STUDENTS } from "./rosterStore";
+
+// Sessions saved before the roster existed were always Tom and Bella.
+const normalizeRecord = (record: SessionRecord): SessionRecord => {
+  const { studentA, studentB } = record.sessionData;
+  if (studentA.student && studentB.student) return record;
+  return {
+    ...record,
+    sessionData: {
+      studentA: { ...studentA, student: studentA.student ?? DEFAULT_STUDENTS[0] },
+      studentB: { ...studentB, student: studentB.student ?? DEFAULT_STUDENTS[1] },
+    },
+  };
+};
+
+export const saveSession = async (
+  plan: DailyPlan,
+  sessionData: SessionData,
+  report: FullReport
+): Promise<SessionRecord> => {
+  const record: SessionRecord = {
+    id: createId(),
+    timestamp: Date.now(),
+    day: plan.day,
+    topic: plan.topic,
+    plan,
+    sessionData,
+    report,
+  };
+  await withStore(STORE_SESSIONS, 'readwrite', store => store.put(record));
+  return record;
+};
+
+// Newest first
+export const listSessions = async (): Promise<SessionRecord[]> => {
+  const records = await withStore<SessionRecord[]>(STORE_SESSIONS, 'readonly', store => store.getAll());
+  return records.map(normalizeRecord).sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const getSession = async (id: string): Promise<SessionRecord | undefined> => {
+  const record = await withStore<SessionRecord | undefined>(STORE_SESSIONS, 'readonly', store => store.get(id));
+  return record && normalizeRecord(record);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await withStore(STORE_SESSIONS, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,72 @@
+import type { DailyPlan } from "../types";
+import { STORE_PLANS, withStore } from "./db";
+import { validateDailyPlan, ValidationError } from "./validation";
+
+// Generated plans are kept per day so every learner who sits "Day 5" gets the
+// same questions. Plans never contain learner names, so they can be shared.
+
+const PLAN_SET_FORMAT = 'ket-plan-set';
+const PLAN_SET_VERSION = 1;
+
+interface PlanSetFile {
+  format: typeof PLAN_SET_FORMAT;
+  version: number;
+  exportedAt: number;
+  plans: DailyPlan[];
+}
+
+export const getPlan = async (day: number): Promise<DailyPlan | undefined> =>
+  withStore<DailyPlan | undefined>(STORE_PLANS, 'readonly', store => store.get(day));
+
+export const savePlan = async (plan: DailyPlan): Promise<void> => {
+  await withStore(STORE_PLANS, 'readwrite', store => store.put(plan));
+};
+
+// Ordered by day
+export const listPlans = async (): Promise<DailyPlan[]> => {
+  const plans = await withStore<DailyPlan[]>(STORE_PLANS, 'readonly', store => store.getAll());
+  return plans.sort((a, b) => a.day - b.day);
+};
+
+export const exportPlanSet = async (): Promise<string> => {
+  const file: PlanSetFile = {
+    format: PLAN_SET_FORMAT,
+    version: PLAN_SET_VERSION,
+    exportedAt: Date.now(),
+    plans: await listPlans(),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// Replaces the saved plan for every day in the file and resolves to the days imported.
+export const importPlanSet = async (json: string): Promise<number[]> => {
+  let file: PlanSetFile;
+  try {
+    file = JSON.parse(json) as PlanSetFile;
+  } catch {
+    throw new Error("This file is not a plan set (it is not valid JSON).");
+  }
+  if (file?.format !== PLAN_SET_FORMAT || !Array.isArray(file.plans)) {
+    throw new Error("This file is not a KET plan set export.");
+  }
+  if (file.version > PLAN_SET_VERSION) {
+    throw new Error("This plan set was exported by a newer version of the app.");
+  }
+  const plans: DailyPlan[] = [];
+  const problems: string[] = [];
+  file.plans.forEach((value, i) => {
+    try {
+      plans.push(validateDailyPlan(value));
+    } catch (err) {
+      if (!(err instanceof ValidationError)) throw err;
+      problems.push(`plan ${i + 1}: ${err.issues[0]}`);
+    }
+  });
+  if (problems.length > 0) {
+    throw new Error(`${problems.length} plan(s) in this file are incomplete, so nothing was imported (${problems[0]}).`);
+  }
+  for (const plan of plans) {
+    await savePlan(plan);
+  }
+  return plans.map(p => p.day);
+};
@@ -0,0 +1,81 @@
+import type { SessionRecord, Student } from "../types";
+
+// --- Progress across the 30-day challenge, derived from saved sessions ---
+
+export interface DayProgress {
+  day: number;
+  sessionCount: number;
+  lastTimestamp: number;
+  lastScores: { name: string, score: number }[]; // scored learners of the latest session
+}
+
+export interface ScorePoint {
+  timestamp: number;
+  day: number;
+  score: number;
+}
+
+export interface LearnerProgress {
+  student: Student;
+  points: ScorePoint[]; // oldest first
+  topBadPoints: { text: string, count: number }[];
+}
+
+const TOP_BAD_POINTS = 5;
+
+// Both seats with their results; the AI partner (null result) is left out.
+const scoredSeats = (record: SessionRecord) =>
+  ([[record.sessionData.studentA, record.report.studentA], [record.sessionData.studentB, record.report.studentB]] as const)
+    .flatMap(([seat, result]) => (result ? [{ student: seat.student, result }] : []));
+
+// Expects records newest first, as listSessions returns them.
+export const summarizeDays = (records: SessionRecord[]): Map<number, DayProgress> => {
+  const days = new Map<number, DayProgress>();
+  for (const record of records) {
+    const existing = days.get(record.day);
+    if (existing) {
+      existing.sessionCount++;
+      continue;
+    }
+    days.set(record.day, {
+      day: record.day,
+      sessionCount: 1,
+      lastTimestamp: record.timestamp,
+      lastScores: scoredSeats(record).map(({ student, result }) => ({ name: student.name, score: result.score })),
+    });
+  }
+  return days;
+};
+
+// The model words the same weakness slightly differently each time, so counting
+// is done on a loosely normalised form and the most recent wording is shown.
+const normalizePoint = (text: string) => text.toLowerCase().replace(/[^a-z\s]/g, '').replace(/\s+/g, ' ').trim();
+
+export const summarizeLearners = (records: SessionRecord[]): LearnerProgress[] => {
+  const learners = new Map<string, { student: Student, points: ScorePoint[], badPoints: Map<string, { text: string, count: number }> }>();
+
+  for (const record of records) {
+    for (const { student, result } of scoredSeats(record)) {
+      let entry = learners.get(student.id);
+      if (!entry) {
+        // Records are newest first, so the first name seen is the current one
+        entry = { student, points: [], badPoints: new Map() };
+        learners.set(student.id, entry);
+      }
+      entry.points.push({ timestamp: record.timestamp, day: record.day, score: result.score });
+      for (const text of result.badPoints) {
+        const key = normalizePoint(text);
+        if (!key) continue;
+        const counted = entry.badPoints.get(key);
+        if (counted) counted.count++;
+        else entry.badPoints.set(key, { text, count: 1 });
+      }
+    }
+  }
+
+  return [...learners.values()].map(({ student, points, badPoints }) => ({
+    student,
+    points: points.sort((a, b) => a.timestamp - b.timestamp),
+    topBadPoints: [...badPoints.values()].sort((a, b) => b.count - a.count).slice(0, TOP_BAD_POINTS),
+  }));
+};
@@ -0,0 +1,504 @@
+import { GoogleGenAI, Modality, Type, type GenerateContentParameters, type Part } from "@google/genai";
+import type { AnswerTiming, DailyPlan, FullReport, Question, Seat, SessionData, SpeakingRate, Student, StudentSessionData } from "../../types";
+import type { AiProvider } from "../aiProvider";
+import { MARKING_CRITERIA } from "../../data/markingCriteria";
+import { DIFFICULTY_STEPS, getReviewFunctions, type SyllabusEntry } from "../../data/syllabus";
+import { PROMPT_ICON_IDS } from "../../data/promptIcons";
+import { getAskedSeats, seatKey } from "../turnOrder";
+import { formatDialogue } from "../conversation";
+import { getUncertainSegments } from "../recognitionConfidence";
+import { parseJson, validateDailyPlan, validateFullReport, ValidationError } from "../validation";
+import { base64ToUint8Array, blobToBase64 } from "../base64";
+import { GEMINI_VOICES } from "../../data/voices";
+
+// --- Helpers ---
+
+// Gemini TTS is 24kHz, 1 channel, 16-bit PCM
+const SAMPLE_RATE = 24000;
+
+function createWavBlob(pcmData: Uint8Array): Blob {
+  const numChannels = 1;
+  const bitsPerSample = 16;
+  const byteRate = (SAMPLE_RATE * numChannels * bitsPerSample) / 8;
+  const blockAlign = (numChannels * bitsPerSample) / 8;
+  const dataSize = pcmData.length;
+  const headerSize = 44;
+
+  const buffer = new ArrayBuffer(headerSize + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, string: string) => {
+    for (let i = 0; i < string.length; i++) {
+      view.setUint8(offset + i, string.charCodeAt(i));
+    }
+  };
+
+  // RIFF chunk descriptor
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true); // ChunkSize
+  writeString(8, 'WAVE');
+
+  // fmt sub-chunk
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // Subchunk1Size (16 for PCM)
+  view.setUint16(20, 1, true); // AudioFormat (1 for PCM)
+  view.setUint16(22, numChannels, true); // NumChannels
+  view.setUint32(24, SAMPLE_RATE, true); // SampleRate
+  view.setUint32(28, byteRate, true); // ByteRate
+  view.setUint16(32, blockAlign, true); // BlockAlign
+  view.setUint16(34, bitsPerSample, true); // BitsPerSample
+
+  // data sub-chunk
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true); // Subchunk2Size
+
+  // Write PCM data
+  const pcmBytes = new Uint8Array(buffer, headerSize);
+  pcmBytes.set(pcmData);
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+// Inline request data is capped at 20MB; leave room for the prompt and base64 overhead.
+const MAX_INLINE_AUDIO_BYTES = 12 * 1024 * 1024;
+
+// Interleaves a label with each learner's recording so the model can match clips to answers.
+const buildAudioParts = async (plan: DailyPlan, sessionData: SessionData): Promise<Part[]> => {
+  const parts: Part[] = [];
+  let totalBytes = 0;
+  for (const seatId of ['A', 'B'] as Seat[]) {
+    const seat = sessionData[seatKey(seatId)];
+    if (seat.student.isAi) continue;
+    for (const q of plan.questions) {
+      const clips: [string, Blob | undefined][] = [
+        [`Recording of ${seat.student.name} answering [${q.id}]:`, seat.audio?.[q.id]],
+        [`Recording of ${seat.student.name} answering the follow-up to [${q.id}]:`, seat.followUps?.[q.id]?.audio],
+        ...(sessionData.dialogues?.[q.id] ?? []).flatMap((turn, i): [string, Blob | undefined][] =>
+          (turn.seat === seatId ? [[`Recording of ${seat.student.name} in turn ${i + 1} of the conversation on [${q.id}]:`, turn.audio]] : [])),
+      ];
+      for (const [label, clip] of clips) {
+        if (!clip || totalBytes + clip.size > MAX_INLINE_AUDIO_BYTES) continue;
+        totalBytes += clip.size;
+        parts.push({ text: label });
+        parts.push({
+          inlineData: {
+            mimeType: clip.type.split(';')[0] || 'audio/webm',
+            data: await blobToBase64(clip),
+          },
+        });
+      }
+    }
+  }
+  return parts;
+};
+
+const seconds = (ms: number) => `${Math.round(ms / 100) / 10}s`;
+
+const describeTiming = (label: string, t: AnswerTiming) => {
+  const latency = t.startedAt !== undefined ? seconds(t.startedAt - t.turnStartedAt) : "typed";
+  return `- ${label} waited ${latency} before speaking, spoke for ${seconds(t.speakingMs)}, turn lasted ${seconds(t.endedAt - t.turnStartedAt)}`;
+};
+
+// One line per timed answer: response latency, time spent speaking and the whole turn
+const describeTimings = (sessionData: SessionData, seatId: Seat): string => {
+  const seat = sessionData[seatKey(seatId)];
+  const lines = [
+    ...Object.entries(seat.timings ?? {}).map(([questionId, t]) => describeTiming(`[${questionId}]`, t)),
+    ...Object.entries(seat.followUps ?? {}).flatMap(([questionId, f]) =>
+      (f.timing ? [describeTiming(`[${questionId}] follow-up`, f.timing)] : [])),
+    ...Object.entries(sessionData.dialogues ?? {}).flatMap(([questionId, dialogue]) =>
+      dialogue.flatMap((turn, i) => (turn.seat === seatId && turn.timing ? [describeTiming(`[${questionId}] conversation turn ${i + 1}`, turn.timing)] : []))),
+  ];
+  return lines.length > 0 ? lines.join('\n') : "No timing data.";
+};
+
+// Stretches of transcript the recogniser was unsure about, with what else it thought it heard
+const describeUncertainSpeech = (sessionData: SessionData, seatId: Seat): string => {
+  const lines = getUncertainSegments(sessionData, seatId).map(({ questionId, label, segment }) => {
+    const alternatives = (segment.alternatives ?? []).map(a => `"${a.transcript}"`).join(', ');
+    return `- [${questionId}]${label ? ` ${label}` : ""} "${segment.transcript}" (${Math.round(segment.confidence * 100)}% sure)${alternatives ? `, or perhaps ${alternatives}` : ""}`;
+  });
+  return lines.length > 0 ? lines.join('\n') : "None.";
+};
+
+// The examiner's back-up prompts and what the learner said in reply
+const describeFollowUps = (seat: StudentSessionData): string => {
+  const lines = Object.entries(seat.followUps ?? {}).map(([questionId, f]) =>
+    `- [${questionId}] Examiner: "${f.prompt}" ${seat.student.name}: "${f.answer || "(no answer)"}"`);
+  return lines.length > 0 ? lines.join('\n') : "None.";
+};
+
+// Each Part 2 conversation as a transcript, in speaking order
+const describeDialogues = (sessionData: SessionData): string => {
+  const blocks = Object.entries(sessionData.dialogues ?? {}).map(([questionId, dialogue]) =>
+    `[${questionId}]\n${formatDialogue(sessionData, dialogue).map(line => `  ${line}`).join('\n')}`);
+  return blocks.length > 0 ? blocks.join('\n') : "None.";
+};
+
+const criterionBandSchema = {
+  type: Type.OBJECT,
+  properties: {
+    band: { type: Type.INTEGER },
+    justification: { type: Type.STRING },
+  },
+  required: ["band", "justification"],
+};
+
+const evaluationResultSchema = {
+  type: Type.OBJECT,
+  properties: {
+    score: { type: Type.NUMBER },
+    criteria: {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(MARKING_CRITERIA.map(c => [c.id, criterionBandSchema])),
+      required: MARKING_CRITERIA.map(c => c.id),
+    },
+    feedback: { type: Type.STRING },
+    goodPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
+    badPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
+    suggestions: { type: Type.ARRAY, items: { type: Type.STRING } },
+    answerFeedback: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          questionId: { type: Type.STRING },
+          corrected: { type: Type.STRING },
+          errors: { type: Type.ARRAY, items: { type: Type.STRING } },
+          tip: { type: Type.STRING },
+          pronunciation: {
+            type: Type.OBJECT,
+            properties: {
+              mispronouncedWords: { type: Type.ARRAY, items: { type: Type.STRING } },
+              stress: { type: Type.STRING },
+              intelligibility: { type: Type.STRING, enum: ["clear", "mostly clear", "hard to understand"] },
+            },
+            required: ["mispronouncedWords", "stress", "intelligibility"],
+          },
+        },
+        required: ["questionId", "corrected", "errors", "tip"],
+      },
+    },
+  },
+  required: ["score", "criteria", "feedback", "goodPoints", "badPoints", "suggestions", "answerFeedback"],
+};
+
+// --- Provider ---
+
+// Gemini TTS has no rate parameter; it follows a spoken style instruction instead
+const RATE_INSTRUCTIONS: Record<SpeakingRate, string> = {
+  'normal': "",
+  'slow': "Say slowly and clearly: ",
+  'very slow': "Say very slowly and clearly, with a short pause between phrases: ",
+};
+
+// `baseUrl` sends requests somewhere other than Google, e.g. a local stub of the API
+export const createGeminiProvider = (apiKey: string, baseUrl?: string): AiProvider => {
+  // Created lazily so that merely selecting the provider never touches the SDK.
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!client) client = new GoogleGenAI(baseUrl ? { apiKey, httpOptions: { baseUrl } } : { apiKey });
+    return client;
+  };
+
+  // Structured output still comes back malformed now and then. A response that
+  // fails validation is sent back once with the problems listed; if the
+  // repaired version fails too, the ValidationError reaches the caller.
+  const generateValidJson = async <T>(params: GenerateContentParameters, subject: string, validate: (value: unknown) => T): Promise<T> => {
+    const response = await getClient().models.generateContent(params);
+    try {
+      return validate(parseJson(response.text, subject));
+    } catch (err) {
+      if (!(err instanceof ValidationError)) throw err;
+      console.warn(`Repairing ${subject}:`, err.issues);
+      const repaired = await getClient().models.generateContent({
+        model: params.model,
+        contents: `This JSON ${subject} has problems:
+      ${err.issues.map(issue => `- ${issue}`).join('\n')}
+      Fix them and return the whole corrected JSON only. Keep everything that was already valid.
+
+      ${response.text ?? ""}`,
+        config: params.config,
+      });
+      return validate(parseJson(repaired.text, subject));
+    }
+  };
+
+  const generateDayPlan = async (entry: SyllabusEntry, students: [Student, Student], signal?: AbortSignal): Promise<DailyPlan> => {
+    const [nameA, nameB] = students.map(s => s.name);
+    const step = DIFFICULTY_STEPS[entry.step];
+    const review = getReviewFunctions(entry.day);
+    // The syllabus, not the model, decides which day and topic this is
+    return generateValidJson({
+      model: "gemini-2.5-flash",
+      contents: `Generate a KET (A2 Key) speaking test plan for Day ${entry.day} of a 30-day challenge.
+      The plan must include a mix of Part 1 (Interview/Personal questions) and Part 2 (Discussion/Phase 2) questions.
+      Provide exactly 5 distinct questions/prompts.
+      Student A is named "${nameA}" and Student B is named "${nameB}".
+      For "target", specify if the question is for Student A ("A"), Student B ("B"), or "Both".
+      Do not put the students' names in the question text; the examiner adds them when asking.
+
+      Today's syllabus entry:
+      - A2 Key topic area: ${entry.topicArea}
+      - Focus: ${entry.focus}
+      - Target functions: ${entry.functions.join(', ')}
+      - Difficulty step ${entry.step} of 5 (${step.label}): ${step.guidance}
+      ${review.length > 0 ? `- Also recycle one function from the previous days: ${review.join(', ')}` : ""}
+      Every question must stay within the topic area and practise at least one target function.
+      Every Part 2 question is a discussion about a set of pictures, as in the real exam: give it 3 to 5 "prompts",
+      each a short label (2-4 words) and the closest "icon" from the allowed list. Part 1 questions have no prompts.`,
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            day: { type: Type.INTEGER },
+            topic: { type: Type.STRING },
+            questions: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  id: { type: Type.STRING },
+                  text: { type: Type.STRING },
+                  part: { type: Type.STRING, enum: ["Part 1", "Part 2"] },
+                  target: { type: Type.STRING, enum: ["A", "B", "Both"] },
+                  prompts: {
+                    type: Type.ARRAY,
+                    items: {
+                      type: Type.OBJECT,
+                      properties: {
+                        label: { type: Type.STRING },
+                        icon: { type: Type.STRING, enum: PROMPT_ICON_IDS },
+                      },
+                      required: ["label", "icon"],
+                    },
+                  },
+                },
+                required: ["id", "text", "part", "target"],
+              },
+            },
+          },
+          required: ["questions"],
+        },
+      },
+    }, "day plan", value => validateDailyPlan({ ...(value as object), day: entry.day, topic: entry.focus }));
+  };
+
+  const synthesizeSpeech = async (text: string, voice: string, rate: SpeakingRate, signal?: AbortSignal): Promise<Blob | null> => {
+    const response = await getClient().models.generateContent({
+      model: "gemini-2.5-flash-preview-tts",
+      contents: [{ parts: [{ text: RATE_INSTRUCTIONS[rate] + text }] }],
+      config: {
+        abortSignal: signal,
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: GEMINI_VOICES.includes(voice) ? voice : GEMINI_VOICES[0] },
+          },
+        },
+      },
+    });
+
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!base64Audio) throw new Error("No audio data returned");
+
+    // Convert raw PCM to WAV Blob
+    return createWavBlob(base64ToUint8Array(base64Audio));
+  };
+
+  const transcribeAudio = async (audio: Blob, lang: string, signal?: AbortSignal): Promise<string | null> => {
+    const response = await getClient().models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: [{
+        role: 'user',
+        parts: [
+          {
+            text: `Transcribe this recording of a 12-year-old learner of English (${lang}) answering a speaking test question.
+            Write exactly what they say, including grammar mistakes, wrong words, repetitions and hesitations such as "um" or "er".
+            Don't correct, complete or improve anything: the transcript is used to mark their English.
+            If nobody speaks, return an empty transcript.`,
+          },
+          { inlineData: { mimeType: audio.type.split(';')[0] || 'audio/webm', data: await blobToBase64(audio) } },
+        ],
+      }],
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: { transcript: { type: Type.STRING } },
+          required: ["transcript"],
+        },
+      },
+    });
+
+    const value = parseJson(response.text, "transcript");
+    const transcript = (value as { transcript?: unknown } | null)?.transcript;
+    if (typeof transcript !== 'string') throw new ValidationError("transcript", ["transcript is missing"]);
+    return transcript.trim();
+  };
+
+  const evaluateSession = async (
+    plan: DailyPlan,
+    sessionData: SessionData,
+    signal?: AbortSignal
+  ): Promise<FullReport> => {
+    const nameA = sessionData.studentA.student.name;
+    const nameB = sessionData.studentB.student.name;
+    const aiA = !!sessionData.studentA.student.isAi;
+    const aiB = !!sessionData.studentB.student.isAi;
+    const aiName = aiA ? nameA : aiB ? nameB : null;
+    const audioParts = await buildAudioParts(plan, sessionData);
+    const hasAudio = audioParts.length > 0;
+
+    const prompt = `
+      Role: KET (A2 Key) Speaking Examiner.
+      Task: Evaluate the following session for Day ${plan.day}: ${plan.topic}.
+
+      The students are ${nameA} (Student A) and ${nameB} (Student B).
+      ${aiName ? `${aiName} is an AI practice partner, not a real candidate. Do not evaluate ${aiName}; use their answers only as context for how well the learner interacted.` : ""}
+
+      IMPORTANT:
+      ${aiA ? "" : `- "studentA" in the JSON output corresponds to ${nameA}.`}
+      ${aiB ? "" : `- "studentB" in the JSON output corresponds to ${nameB}.`}
+      - Refer to the students by name in the feedback.
+      - If the user finished early, only evaluate answered questions. Do not penalize for missing questions.
+      - Each question lists who was asked it, in speaking order. Only judge a student on questions they were asked;
+        a question put to the other student alone is not a missing answer. A student who spoke second could react to their partner.
+
+      Questions in Plan:
+      ${plan.questions.map(q => `- [${q.id}] ${q.text} (Asked: ${getAskedSeats(sessionData, q).map(seat => (seat === 'A' ? nameA : nameB)).join(', then ')})`).join('\n')}
+
+      ${nameA} (Student A${aiA ? ", AI partner" : ""}) Answers:
+      ${JSON.stringify(sessionData.studentA.answers)}
+
+      ${nameB} (Student B${aiB ? ", AI partner" : ""}) Answers:
+      ${JSON.stringify(sessionData.studentB.answers)}
+
+      Follow-up questions (the examiner asked these after a short or thin first answer; treat the first answer and the
+      reply as one answer to that question, and give credit if the learner developed it when prompted):
+      ${aiA ? "" : `${nameA}:\n${describeFollowUps(sessionData.studentA)}`}
+      ${aiB ? "" : `${nameB}:\n${describeFollowUps(sessionData.studentB)}`}
+
+      Part 2 conversations (these questions were discussed turn by turn, so they have no entries in the answers above).
+      Judge interactive communication mainly on these real exchanges: does each student react to what their partner
+      has just said, agree or disagree with a reason, ask for their partner's opinion and keep the discussion going,
+      or do they ignore the partner and give separate monologues?
+      ${describeDialogues(sessionData)}
+
+      Response timings (use them to judge fluency and response latency; long waits or very short speaking times matter):
+      ${aiA ? "" : `${nameA}:\n${describeTimings(sessionData, 'A')}`}
+      ${aiB ? "" : `${nameB}:\n${describeTimings(sessionData, 'B')}`}
+
+      Uncertain transcription (speech recognition was unsure of these stretches, so the student may have said one of the
+      alternatives instead; don't count an error that only appears in an uncertain stretch, but many uncertain stretches
+      can be a sign of unclear pronunciation):
+      ${aiA ? "" : `${nameA}:\n${describeUncertainSpeech(sessionData, 'A')}`}
+      ${aiB ? "" : `${nameB}:\n${describeUncertainSpeech(sessionData, 'B')}`}
+
+      Marking criteria (give each an integer band 0-5 with a one-sentence justification that quotes or refers to what the student said):
+      ${MARKING_CRITERIA.map(c => `- ${c.id} (${c.label}): ${c.description}`).join('\n')}
+      ${hasAudio
+        ? `Recordings of the answers follow this prompt. Speech recognition hides pronunciation problems and silently "corrects" them,
+      so judge pronunciation from the audio, not the transcript. For every answer with a recording, fill "pronunciation" in its
+      answerFeedback entry: the mispronounced words, word stress and intonation, and overall intelligibility.
+      Base the pronunciation criterion band on these findings. For answers without a recording, leave "pronunciation" out.`
+        : "Pronunciation can only be judged from transcription clues (e.g. misrecognised words); say so in the justification."}
+
+      For every question a student answered, add an "answerFeedback" entry with the question id, a corrected version of the answer
+      (including the follow-up reply, if any; for a conversation, all of that student's turns together)
+      in natural A2-level English (keep the student's ideas, fix grammar and word choice), the specific errors found (empty if none)
+      and one short tip for next time.
+
+      Provide a strict JSON report. Score 0-5 is the overall mark and should be consistent with the criteria bands.
+    `;
+
+    // Only the transcript-level structure can need repair, so the retry goes without the audio
+    return generateValidJson({
+      model: "gemini-2.5-flash",
+      contents: hasAudio ? [{ role: 'user', parts: [{ text: prompt }, ...audioParts] }] : prompt,
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            ...(aiA ? {} : { studentA: evaluationResultSchema }),
+            ...(aiB ? {} : { studentB: evaluationResultSchema }),
+            generalFeedback: { type: Type.STRING },
+          },
+          required: [...(aiA ? [] : ["studentA"]), ...(aiB ? [] : ["studentB"]), "generalFeedback"],
+        },
+      },
+    }, "report", value => validateFullReport(value, { studentA: aiA, studentB: aiB }));
+  };
+
+  const generatePartnerAnswer = async (
+    plan: DailyPlan,
+    question: Question,
+    partner: Student,
+    learnerAnswer?: string,
+    conversation?: string[],
+    signal?: AbortSignal
+  ): Promise<string> => {
+    const instructions = conversation
+      ? `You and your partner are discussing this together, taking turns.
+      ${conversation.length > 0 ? `The conversation so far:\n${conversation.join('\n')}\nSay your next turn: react to what your partner just said, then add one new idea about the pictures or ask their opinion. Don't repeat yourself.` : "You speak first: give your opinion about one of the pictures and ask your partner what they think."}
+      Answer in 1-2 short sentences using simple A2-level English.`
+      : `${learnerAnswer ? `Your partner answered: "${learnerAnswer}". React to what they said, agree or disagree, and give your own reason.` : ""}
+      Answer in 2-3 short sentences using simple A2-level English. ${question.part === 'Part 2' ? "End with a short question to your partner." : ""}`;
+    const response = await getClient().models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: `You are ${partner.name}, a 12-year-old candidate taking the KET (A2 Key) speaking test with a partner.
+      Topic: ${plan.topic}. This is a ${question.part} question.
+      The examiner asked: "${question.text}"
+      ${question.prompts?.length ? `The pictures show: ${question.prompts.map(p => p.label).join(', ')}.` : ""}
+      ${instructions}
+      Reply with the spoken answer only, no quotes or labels.`,
+      config: { abortSignal: signal },
+    });
+
+    const text = response.text?.trim();
+    if (!text) throw new Error("No partner answer generated");
+    return text;
+  };
+
+  const generateFollowUp = async (
+    plan: DailyPlan,
+    question: Question,
+    learner: Student,
+    answer: string,
+    signal?: AbortSignal
+  ): Promise<string> => {
+    const response = await getClient().models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: `You are the interlocutor in a KET (A2 Key) speaking test. Topic: ${plan.topic}.
+      You asked ${learner.name}: "${question.text}"
+      ${learner.name} answered: "${answer}"
+      The answer is short or gives no reason. Ask ONE short back-up question, as the real interlocutor would,
+      to help them say more: for example "Why?", "Why not?", "Tell me more about ...", or a simple question about something they mentioned.
+      Use A2-level English and at most 10 words. Do not use their name.
+      Reply with the question only, no quotes or labels.`,
+      config: { abortSignal: signal },
+    });
+
+    const text = response.text?.trim();
+    if (!text) throw new Error("No follow-up generated");
+    return text;
+  };
+
+  return {
+    id: 'gemini',
+    label: 'Gemini 2.5 Flash & TTS',
+    voices: GEMINI_VOICES,
+    canTranscribe: true,
+    generateDayPlan,
+    synthesizeSpeech,
+    transcribeAudio,
+    evaluateSession,
+    generatePartnerAnswer,
+    generateFollowUp,
+  };
+};
@@ -0,0 +1,378 @@
+import type { AnswerFeedback, CriterionBand, CriterionId, DailyPlan, EvaluationResult, FullReport, Question, Seat, SessionData, Student } from "../../types";
+import type { AiProvider } from "../aiProvider";
+import type { DifficultyStep, SyllabusEntry } from "../../data/syllabus";
+import { getSeatText } from "../conversation";
+import { seatKey, wasAsked } from "../turnOrder";
+import { getAverageConfidence } from "../recognitionConfidence";
+import { validateDailyPlan } from "../validation";
+
+// Offline provider: canned plans and a rule-based marker, so the whole
+// App -> TestSession -> ReportCard flow can be run without an API key.
+
+type CannedQuestion = Omit<Question, 'id'>;
+
+interface CannedPlan {
+  topicAreas: string[]; // syllabus topic areas this plan can stand in for
+  questions: CannedQuestion[];
+}
+
+const CANNED_PLANS: CannedPlan[] = [
+  {
+    topicAreas: ["Hobbies and leisure", "Sport", "Entertainment and media"],
+    questions: [
+      { part: 'Part 1', target: 'A', text: "What do you like doing at the weekend?" },
+      { part: 'Part 1', target: 'B', text: "Do you play any sports? Tell me about it." },
+      { part: 'Part 1', target: 'Both', text: "How often do you watch films at home?" },
+      { part: 'Part 2', target: 'Both', text: "Do you like reading books, playing video games or drawing? Which is the best hobby?",
+        prompts: [{ label: "Reading books", icon: 'reading' }, { label: "Video games", icon: 'gaming' }, { label: "Drawing", icon: 'drawing' }] },
+      { part: 'Part 2', target: 'Both', text: "Which hobby would you like to try next year? Why?",
+        prompts: [{ label: "Playing the guitar", icon: 'guitar' }, { label: "Cooking", icon: 'cooking' }, { label: "Photography", icon: 'photo' }, { label: "Camping", icon: 'camping' }] },
+    ],
+  },
+  {
+    topicAreas: ["School and study", "Language", "Work and jobs"],
+    questions: [
+      { part: 'Part 1', target: 'A', text: "What is your favourite subject at school?" },
+      { part: 'Part 1', target: 'B', text: "How do you get to school every day?" },
+      { part: 'Part 1', target: 'Both', text: "What do you usually eat for lunch at school?" },
+      { part: 'Part 2', target: 'Both', text: "Is it better to study in the morning or in the evening? Why?",
+        prompts: [{ label: "In the morning", icon: 'sun' }, { label: "In the evening", icon: 'reading' }] },
+      { part: 'Part 2', target: 'Both', text: "Which school trip would you like to go on: a museum, a farm or a theatre?",
+        prompts: [{ label: "A museum", icon: 'museum' }, { label: "A farm", icon: 'dog' }, { label: "A theatre", icon: 'theatre' }] },
+    ],
+  },
+  {
+    topicAreas: ["Food and drink", "Shopping", "Health, medicine and exercise"],
+    questions: [
+      { part: 'Part 1', target: 'A', text: "What did you have for breakfast today?" },
+      { part: 'Part 1', target: 'B', text: "Can you cook? What can you make?" },
+      { part: 'Part 1', target: 'Both', text: "What is your favourite restaurant?" },
+      { part: 'Part 2', target: 'Both', text: "Do you prefer eating at home or in a restaurant? Why?",
+        prompts: [{ label: "At home", icon: 'home' }, { label: "In a restaurant", icon: 'restaurant' }] },
+      { part: 'Part 2', target: 'Both', text: "What food should we take on a picnic?",
+        prompts: [{ label: "Sandwiches", icon: 'sandwich' }, { label: "Fruit", icon: 'fruit' }, { label: "Cake", icon: 'cake' }, { label: "Pizza", icon: 'pizza' }, { label: "Salad", icon: 'salad' }] },
+    ],
+  },
+  {
+    topicAreas: ["Travel and holidays", "Transport", "Places and buildings", "Weather", "The natural world"],
+    questions: [
+      { part: 'Part 1', target: 'A', text: "Where did you go on your last holiday?" },
+      { part: 'Part 1', target: 'B', text: "Do you like travelling by train or by plane?" },
+      { part: 'Part 1', target: 'Both', text: "Who do you usually go on holiday with?" },
+      { part: 'Part 2', target: 'Both', text: "Is a holiday at the beach or in the mountains more fun? Why?",
+        prompts: [{ label: "At the beach", icon: 'beach' }, { label: "In the mountains", icon: 'mountains' }] },
+      { part: 'Part 2', target: 'Both', text: "What is the most important thing to pack for a holiday?",
+        prompts: [{ label: "A phone", icon: 'phone' }, { label: "A camera", icon: 'photo' }, { label: "Clothes", icon: 'clothes' }, { label: "A book", icon: 'reading' }] },
+    ],
+  },
+  {
+    topicAreas: ["People", "Social interaction", "Personal feelings, opinions and experiences", "Communications and technology"],
+    questions: [
+      { part: 'Part 1', target: 'A', text: "How many people are there in your family?" },
+      { part: 'Part 1', target: 'B', text: "Tell me about your best friend." },
+      { part: 'Part 1', target: 'Both', text: "What do you do with your family at the weekend?" },
+      { part: 'Part 2', target: 'Both', text: "Is it better to have a big family or a small family? Why?",
+        prompts: [{ label: "A big family", icon: 'party' }, { label: "A small family", icon: 'home' }] },
+      { part: 'Part 2', target: 'Both', text: "What is the best present to give a friend on their birthday?",
+        prompts: [{ label: "A book", icon: 'reading' }, { label: "A T-shirt", icon: 'clothes' }, { label: "A video game", icon: 'gaming' }, { label: "A cake", icon: 'cake' }, { label: "Headphones", icon: 'headphones' }] },
+    ],
+  },
+  {
+    topicAreas: ["House and home", "Daily life", "Clothes", "Services"],
+    questions: [
+      { part: 'Part 1', target: 'A', text: "What time do you get up on school days?" },
+      { part: 'Part 1', target: 'B', text: "Describe your bedroom." },
+      { part: 'Part 1', target: 'Both', text: "Do you help with the housework at home?" },
+      { part: 'Part 2', target: 'Both', text: "Would you like to live in a flat or in a house with a garden? Why?",
+        prompts: [{ label: "A flat in the city", icon: 'city' }, { label: "A house with a garden", icon: 'garden' }] },
+      { part: 'Part 2', target: 'Both', text: "Which job at home is the most boring? Why?",
+        prompts: [{ label: "Cooking", icon: 'cooking' }, { label: "Shopping", icon: 'shopping' }, { label: "Walking the dog", icon: 'dog' }, { label: "Cleaning", icon: 'home' }] },
+    ],
+  },
+];
+
+// Part 1 questions that practise each syllabus function, whatever the topic
+const FUNCTION_QUESTIONS: Record<string, string[]> = {
+  "giving personal information": ["Where do you live?", "When is your birthday?"],
+  "describing people": ["Tell me about someone in your family. What are they like?", "Describe your best friend."],
+  "describing routines": ["What do you do after school?", "What do you usually do on Sunday mornings?"],
+  "telling the time": ["What time do you go to bed?", "What time does your first lesson start?"],
+  "expressing likes and dislikes": ["What do you like doing after school?", "Is there anything you don't like doing at the weekend?"],
+  "saying how often": ["How often do you see your grandparents?", "How often do you go to the cinema?"],
+  "describing places": ["Tell me about your favourite place in your town.", "What is your classroom like?"],
+  "expressing preferences": ["Do you prefer summer or winter? Why?", "Would you rather stay at home or go out on Saturday?"],
+  "describing things": ["Tell me about something you bought recently.", "Describe your favourite jacket."],
+  "giving reasons": ["Why do you like your favourite day of the week?", "Why is English useful for you?"],
+  "talking about abilities": ["What can you do well?", "Can you swim or ride a bike?"],
+  "describing the weather": ["What is the weather like today?", "What is the weather like in your country in summer?"],
+  "asking and answering about prices": ["How much pocket money do you spend each week?", "What is something expensive you would like to buy?"],
+  "giving examples": ["What kinds of things do you buy with your own money?"],
+  "expressing opinions": ["What do you think of music competitions on TV?"],
+  "giving directions": ["How do you get from your home to school?"],
+  "talking about the past": ["What did you do last weekend?", "Tell me about your last birthday.", "What did you do last summer?"],
+  "describing experiences": ["What is the most interesting place you have visited?"],
+  "giving advice": ["What should someone do when they feel tired all the time?", "What should a new student do to learn English quickly?"],
+  "talking about future plans": ["What are you going to do next weekend?", "What job would you like to do in the future?"],
+  "describing habits": ["What do you usually do on your phone?"],
+  "describing feelings": ["How do you feel before an exam?"],
+  "comparing": ["Which is more fun, a day at the beach or a day in the city?", "Is it easier to learn at home or at school?"],
+  "making suggestions": ["What could your class do together at the end of the year?", "Where should we go for a class picnic?"],
+  "agreeing and disagreeing": ["Some people say the weekend should be longer. Do you agree?", "Is it a good idea to have no homework at the weekend?"],
+  "giving opinions": ["Do you think homework helps you learn?"],
+  "reaching a decision": ["If your class could choose one trip this year, where would you go?", "Which film should your family watch this weekend?"],
+};
+
+// What each difficulty step adds to a Part 2 discussion
+const PART_2_TASKS: Record<DifficultyStep, string> = {
+  1: "",
+  2: " Give an example.",
+  3: " Choose one and explain why.",
+  4: " Do you agree with your partner?",
+  5: " Talk together and decide on one.",
+};
+
+// Days that share a list get different items from it
+const pickForDay = <T>(items: T[], day: number, offset = 0): T => items[(day + offset) % items.length];
+
+const MIN_WORDS_PER_ANSWER = 8;
+const SLOW_START_SECONDS = 10;
+
+const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+const clampBand = (n: number) => Math.max(0, Math.min(5, Math.round(n)));
+
+// Simple A2-level lines for the AI partner, picked deterministically per question.
+const PARTNER_ANSWERS: Record<Question['part'], string[]> = {
+  'Part 1': [
+    "I usually play football with my friends in the park. It's really fun because we can run a lot.",
+    "I like it very much. I do it every weekend with my family, and sometimes with my cousins.",
+    "Not very often, maybe once or twice a month. I prefer doing things outside.",
+  ],
+  'Part 2': [
+    "I think the first one is the best, because it's more interesting. What do you think?",
+    "I don't really agree. I prefer the second one because it's cheaper and easier.",
+    "Both are good, but I like the last one more. It's exciting and you can do it with friends.",
+  ],
+};
+
+// `turn` moves through the list so the partner doesn't repeat itself in a conversation
+const pickPartnerAnswer = (question: Question, turn = 0) => {
+  const options = PARTNER_ANSWERS[question.part];
+  const hash = Array.from(question.id).reduce((sum, ch) => sum + ch.charCodeAt(0), 0);
+  return options[(hash + turn) % options.length];
+};
+
+// The interlocutor's standard back-up prompts: ask for a reason first, then for more detail.
+const pickFollowUp = (question: Question, answer: string) => {
+  if (!/\bbecause\b/i.test(answer)) return question.part === 'Part 2' ? "Why do you think that?" : "Why?";
+  return countWords(answer) < 4 ? "Can you tell me more about that?" : "Can you give me an example?";
+};
+
+// Surface-level checks only: the offline provider cannot really correct grammar.
+const reviewAnswer = (question: Question, answer: string): AnswerFeedback => {
+  const errors: string[] = [];
+  let corrected = answer.trim().replace(/\s+/g, " ");
+
+  if (/\bi\b/.test(corrected)) {
+    errors.push("'I' is always a capital letter.");
+    corrected = corrected.replace(/\bi\b/g, "I");
+  }
+  const repeated = corrected.match(/\b(\w+) \1\b/i);
+  if (repeated) {
+    errors.push(`The word "${repeated[1]}" is repeated.`);
+    corrected = corrected.replace(/\b(\w+) \1\b/gi, "$1");
+  }
+  corrected = corrected.charAt(0).toUpperCase() + corrected.slice(1);
+  if (!/[.!?]$/.test(corrected)) corrected += ".";
+
+  const wordCount = countWords(answer);
+  let tip = "Good length. Try adding an example to make it even better.";
+  if (wordCount < 3) {
+    errors.push("The answer is not a full sentence.");
+    tip = "Answer with a full sentence, for example: \"I like ... because ...\".";
+  } else if (wordCount < MIN_WORDS_PER_ANSWER) {
+    tip = "Add a second sentence with a reason or an example.";
+  } else if (question.part === 'Part 2' && !/\b(because|so|but)\b/i.test(answer)) {
+    tip = "In Part 2, give a reason with 'because' and ask your partner what they think.";
+  }
+
+  return { questionId: question.id, corrected, errors, tip };
+};
+
+const evaluateStudent = (plan: DailyPlan, sessionData: SessionData, seat: Seat): EvaluationResult | null => {
+  const student = sessionData[seatKey(seat)];
+  if (student.student.isAi) return null;
+  // Questions put to the partner alone don't count against this learner
+  const askedQuestions = plan.questions.filter(q => wasAsked(sessionData, q, seat));
+
+  // A follow-up reply, or every turn in a Part 2 conversation, counts as part of the answer to its question
+  const answers = askedQuestions.map(q => getSeatText(sessionData, seat, q.id)).filter(a => a.length > 0);
+  if (answers.length === 0) {
+    return {
+      score: 0,
+      feedback: "No answers recorded.",
+      goodPoints: [],
+      badPoints: ["No speech input detected."],
+      suggestions: ["Check microphone settings."],
+    };
+  }
+
+  const wordCounts = answers.map(countWords);
+  const averageWords = wordCounts.reduce((sum, n) => sum + n, 0) / answers.length;
+  const shortAnswers = wordCounts.filter(n => n < MIN_WORDS_PER_ANSWER).length;
+  const usesReasons = answers.some(a => /\b(because|so|but)\b/i.test(a));
+  const coverage = askedQuestions.length > 0 ? answers.length / askedQuestions.length : 0;
+
+  // 0-5 band: answer length carries most of the weight, linking words and coverage the rest.
+  let score = Math.min(3, Math.floor(averageWords / MIN_WORDS_PER_ANSWER) + 1);
+  if (usesReasons) score += 1;
+  if (coverage >= 0.8) score += 1;
+  score = Math.max(0, Math.min(5, score));
+
+  const words = answers.join(" ").toLowerCase().match(/[a-z']+/g) ?? [];
+  const uniqueRatio = words.length > 0 ? new Set(words).size / words.length : 0;
+  const asksQuestions = answers.some(a => a.includes("?"));
+
+  // Turns this learner took in Part 2 conversations, where replying to the partner is what counts
+  const conversationTurns = Object.values(sessionData.dialogues ?? {}).flat().filter(t => t.seat === seat);
+  const conversationReplies = conversationTurns.filter(t => t.text.trim().length > 0).length;
+
+  // Seconds between the turn starting and the learner starting to speak
+  const latencies = [...Object.values(student.timings ?? {}), ...conversationTurns.flatMap(t => (t.timing ? [t.timing] : []))]
+    .flatMap(t => (t.startedAt !== undefined ? [(t.startedAt - t.turnStartedAt) / 1000] : []));
+  const averageLatency = latencies.length > 0 ? latencies.reduce((sum, n) => sum + n, 0) / latencies.length : null;
+  const slowToStart = averageLatency !== null && averageLatency > SLOW_START_SECONDS;
+  const recognitionConfidence = getAverageConfidence(sessionData, seat);
+
+  const criteria: Record<CriterionId, CriterionBand> = {
+    grammarVocabulary: {
+      band: clampBand(averageWords / MIN_WORDS_PER_ANSWER * 2 + uniqueRatio * 2),
+      justification: `About ${Math.round(averageWords)} words per answer, ${Math.round(uniqueRatio * 100)}% of them different words.`,
+    },
+    pronunciation: recognitionConfidence === null ? {
+      band: 3,
+      justification: "Pronunciation cannot be judged offline from a transcript; this is a neutral band.",
+    } : {
+      // Clear speech is recognised with high confidence; a rough proxy, but better than nothing offline
+      band: clampBand((recognitionConfidence - 0.4) / 0.5 * 5),
+      justification: `Speech recognition was on average ${Math.round(recognitionConfidence * 100)}% sure of what was said; lower means harder to understand.`,
+    },
+    interactiveCommunication: {
+      band: clampBand(coverage * 3 + (usesReasons ? 1 : 0) + (asksQuestions ? 1 : 0) - (slowToStart ? 1 : 0) - (conversationTurns.length > conversationReplies ? 1 : 0)),
+      justification: `Responded to ${answers.length} of ${askedQuestions.length} prompts${usesReasons ? ", gave reasons" : ""}${asksQuestions ? " and asked questions back" : ""}${conversationTurns.length > 0 ? `; spoke in ${conversationReplies} of ${conversationTurns.length} conversation turns` : ""}${averageLatency !== null ? `; took about ${Math.round(averageLatency)}s to start speaking` : ""}.`,
+    },
+    globalAchievement: {
+      band: score,
+      justification: "Matches the overall offline score.",
+    },
+  };
+
+  const goodPoints: string[] = [];
+  const badPoints: string[] = [];
+  const suggestions: string[] = [];
+
+  if (averageWords >= MIN_WORDS_PER_ANSWER) goodPoints.push("Answers are a good length for A2 Key.");
+  if (usesReasons) goodPoints.push("Uses linking words such as 'because' or 'but' to give reasons.");
+  if (coverage >= 0.8) goodPoints.push("Answered almost every question.");
+
+  if (shortAnswers > 0) {
+    badPoints.push(`${shortAnswers} answer${shortAnswers === 1 ? " was" : "s were"} very short.`);
+    suggestions.push("Add one more sentence to each answer, for example a reason or an example.");
+  }
+  if (!usesReasons) {
+    badPoints.push("No reasons were given.");
+    suggestions.push("Try using 'because' to explain your opinion.");
+  }
+  if (slowToStart) {
+    badPoints.push("Took a long time to start answering.");
+    suggestions.push("Start with a short phrase like \"Well, I think...\" while you plan your answer.");
+  }
+  if (coverage < 0.8) {
+    badPoints.push("Some questions were not answered.");
+    suggestions.push("Try to say something for every question, even a short answer.");
+  }
+
+  const answerFeedback = askedQuestions
+    .filter(q => getSeatText(sessionData, seat, q.id))
+    .map(q => reviewAnswer(q, getSeatText(sessionData, seat, q.id)));
+
+  return {
+    score,
+    criteria,
+    answerFeedback,
+    feedback: `Answered ${answers.length} of the ${askedQuestions.length} questions they were asked with about ${Math.round(averageWords)} words per answer.`,
+    goodPoints,
+    badPoints,
+    suggestions,
+  };
+};
+
+export const createLocalProvider = (): AiProvider => {
+  // The canned plan for the topic area, with Part 1 questions for the day's
+  // functions and Part 2 tasks for its difficulty step
+  const generateDayPlan = async (entry: SyllabusEntry): Promise<DailyPlan> => {
+    const { day } = entry;
+    const canned = CANNED_PLANS.find(p => p.topicAreas.includes(entry.topicArea))
+      ?? CANNED_PLANS[(day - 1) % CANNED_PLANS.length];
+    const topicQuestions = canned.questions.filter(q => q.part === 'Part 1').map(q => q.text);
+    const part1Texts = [pickForDay(topicQuestions, day)];
+    for (const [i, fn] of entry.functions.entries()) {
+      const options = (FUNCTION_QUESTIONS[fn] ?? []).filter(text => !part1Texts.includes(text));
+      if (options.length > 0 && part1Texts.length < 3) part1Texts.push(pickForDay(options, day, i));
+    }
+    // A function without questions of its own: fill up from the topic
+    for (const text of topicQuestions) {
+      if (part1Texts.length < 3 && !part1Texts.includes(text)) part1Texts.push(text);
+    }
+
+    const part2 = canned.questions.filter(q => q.part === 'Part 2');
+    const part2InOrder = day % 2 === 0 ? part2 : [...part2].reverse();
+    const questions: CannedQuestion[] = [
+      ...part1Texts.map((text, i): CannedQuestion => ({ part: 'Part 1', target: (['A', 'B', 'Both'] as const)[i], text })),
+      ...part2InOrder.map(q => ({ ...q, text: q.text + PART_2_TASKS[entry.step] })),
+    ];
+    return validateDailyPlan({
+      day,
+      topic: entry.focus,
+      questions: questions.map((q, i) => ({ ...q, id: `d${day}-q${i + 1}` })),
+    });
+  };
+
+  // No voice of its own: the caller falls back to browser speech synthesis.
+  const synthesizeSpeech = async (): Promise<Blob | null> => null;
+
+  // No speech-to-text offline: learners without browser speech recognition type instead.
+  const transcribeAudio = async (): Promise<string | null> => null;
+
+  const evaluateSession = async (
+    plan: DailyPlan,
+    sessionData: SessionData
+  ): Promise<FullReport> => {
+    const studentA = evaluateStudent(plan, sessionData, 'A');
+    const studentB = evaluateStudent(plan, sessionData, 'B');
+    return {
+      studentA,
+      studentB,
+      generalFeedback: `Offline report for Day ${plan.day}: ${plan.topic}. Scores are estimated from answer length, linking words and how many questions were answered.`,
+    };
+  };
+
+  const generatePartnerAnswer = async (_plan: DailyPlan, question: Question, _partner: Student, _learnerAnswer?: string, conversation?: string[]): Promise<string> =>
+    pickPartnerAnswer(question, conversation?.length ?? 0);
+
+  const generateFollowUp = async (_plan: DailyPlan, question: Question, _learner: Student, answer: string): Promise<string> =>
+    pickFollowUp(question, answer);
+
+  return {
+    id: 'local',
+    label: 'Offline demo provider',
+    voices: [],
+    canTranscribe: false,
+    generateDayPlan,
+    synthesizeSpeech,
+    transcribeAudio,
+    evaluateSession,
+    generatePartnerAnswer,
+    generateFollowUp,
+  };
+};
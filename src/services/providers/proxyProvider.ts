@@ -0,0 +1,93 @@
+import type { DailyPlan, FullReport, Question, SessionData, SpeakingRate, Student } from "../../types";
+import type { AiProvider } from "../aiProvider";
+import type { SyllabusEntry } from "../../data/syllabus";
+import { GEMINI_VOICES } from "../../data/voices";
+import { AiRequestError, categorizeError } from "../request";
+import {
+  encodeBlobs,
+  PROXY_ROUTES,
+  type EvaluateRequest,
+  type FollowUpRequest,
+  type PartnerAnswerRequest,
+  type PlanRequest,
+  type ProxyErrorBody,
+  type SpeechRequest,
+  type TextReply,
+  type TranscribeRequest,
+} from "../proxyProtocol";
+
+// Rebuilds the server's error so the retry prompt reads the same as for a direct call
+const toRequestError = async (response: Response): Promise<AiRequestError> => {
+  const body = await response.json().catch(() => null) as Partial<ProxyErrorBody> | null;
+  const message = body?.error ?? `The AI server answered with status ${response.status}.`;
+  const category = body?.category ?? categorizeError({ status: response.status, message });
+  // The browser is online: it reached the server. The server could not reach Gemini.
+  return new AiRequestError(category === 'offline' ? 'server' : category, message);
+};
+
+// Calls the app's own server (server/), which holds the Gemini key and makes
+// the calls. `baseUrl` is empty when the server is on the same origin.
+export const createProxyProvider = (baseUrl: string): AiProvider => {
+  const post = async (route: string, body: object, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(baseUrl + route, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(await encodeBlobs(body)),
+      signal,
+    });
+    if (!response.ok) throw await toRequestError(response);
+    return response;
+  };
+
+  const postJson = async <T>(route: string, body: object, signal?: AbortSignal): Promise<T> =>
+    (await post(route, body, signal)).json() as Promise<T>;
+
+  const generateDayPlan = (entry: SyllabusEntry, students: [Student, Student], signal?: AbortSignal) =>
+    postJson<DailyPlan>(PROXY_ROUTES.plan, { day: entry.day, students } satisfies PlanRequest, signal);
+
+  const synthesizeSpeech = async (text: string, voice: string, rate: SpeakingRate, signal?: AbortSignal): Promise<Blob | null> => {
+    const response = await post(PROXY_ROUTES.speech, { text, voice, rate } satisfies SpeechRequest, signal);
+    return response.status === 204 ? null : response.blob();
+  };
+
+  const transcribeAudio = async (audio: Blob, lang: string, signal?: AbortSignal): Promise<string | null> =>
+    (await postJson<TextReply>(PROXY_ROUTES.transcribe, { audio, lang } satisfies TranscribeRequest, signal)).text;
+
+  const evaluateSession = (plan: DailyPlan, sessionData: SessionData, signal?: AbortSignal) =>
+    postJson<FullReport>(PROXY_ROUTES.evaluate, { plan, sessionData } satisfies EvaluateRequest, signal);
+
+  const generatePartnerAnswer = async (
+    plan: DailyPlan,
+    question: Question,
+    partner: Student,
+    learnerAnswer?: string,
+    conversation?: string[],
+    signal?: AbortSignal
+  ): Promise<string> => {
+    const body: PartnerAnswerRequest = { plan, question, partner, learnerAnswer, conversation };
+    const { text } = await postJson<TextReply>(PROXY_ROUTES.partnerAnswer, body, signal);
+    if (!text) throw new Error("No partner answer generated");
+    return text;
+  };
+
+  const generateFollowUp = async (plan: DailyPlan, question: Question, learner: Student, answer: string, signal?: AbortSignal): Promise<string> => {
+    const { text } = await postJson<TextReply>(PROXY_ROUTES.followUp, { plan, question, learner, answer } satisfies FollowUpRequest, signal);
+    if (!text) throw new Error("No follow-up generated");
+    return text;
+  };
+
+  return {
+    id: 'proxy',
+    label: 'Gemini 2.5 Flash & TTS via the app server',
+    // The server speaks with Gemini's voices; with a stub upstream it has none and
+    // answers 204, so the browser voice takes over as for the offline provider.
+    voices: GEMINI_VOICES,
+    canTranscribe: true,
+    generateDayPlan,
+    synthesizeSpeech,
+    transcribeAudio,
+    evaluateSession,
+    generatePartnerAnswer,
+    generateFollowUp,
+  };
+};
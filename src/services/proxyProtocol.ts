@@ -0,0 +1,92 @@
+import type { DailyPlan, Question, SessionData, SpeakingRate, Student } from "../types";
+import type { AiErrorCategory } from "./request";
+import { base64ToUint8Array, blobToBase64 } from "./base64";
+
+// --- What the browser and the server proxy (server/) send each other ---
+// Every AiProvider call is one POST with a JSON body. Recordings travel inside
+// the JSON as base64, so one request carries a whole session.
+
+export const PROXY_ROUTES = {
+  plan: '/api/plan',
+  speech: '/api/speech', // answers with audio, or 204 when the upstream has no voice
+  transcribe: '/api/transcribe',
+  evaluate: '/api/evaluate',
+  partnerAnswer: '/api/partner-answer',
+  followUp: '/api/follow-up',
+} as const;
+
+// Only the day is sent: the server looks the entry up in its own syllabus
+export interface PlanRequest {
+  day: number;
+  students: [Student, Student];
+}
+
+export interface SpeechRequest {
+  text: string;
+  voice: string;
+  rate: SpeakingRate;
+}
+
+export interface TranscribeRequest {
+  audio: Blob;
+  lang: string;
+}
+
+export interface EvaluateRequest {
+  plan: DailyPlan;
+  sessionData: SessionData;
+}
+
+export interface PartnerAnswerRequest {
+  plan: DailyPlan;
+  question: Question;
+  partner: Student;
+  learnerAnswer?: string;
+  conversation?: string[];
+}
+
+export interface FollowUpRequest {
+  plan: DailyPlan;
+  question: Question;
+  learner: Student;
+  answer: string;
+}
+
+// Text replies (partner answers, follow-ups and transcripts) come back as { text }
+export interface TextReply {
+  text: string | null;
+}
+
+// Body of every error reply; the category lets the browser show the same retry prompt as a direct call
+export interface ProxyErrorBody {
+  error: string;
+  category: AiErrorCategory;
+}
+
+interface EncodedBlob {
+  $blob: string; // base64
+  type: string;
+}
+
+const isEncodedBlob = (value: unknown): value is EncodedBlob =>
+  typeof value === 'object' && value !== null && typeof (value as EncodedBlob).$blob === 'string';
+
+// Replaces every Blob in a JSON-like value with its base64 form
+export const encodeBlobs = async (value: unknown): Promise<unknown> => {
+  if (value instanceof Blob) return { $blob: await blobToBase64(value), type: value.type };
+  if (Array.isArray(value)) return Promise.all(value.map(encodeBlobs));
+  if (typeof value === 'object' && value !== null) {
+    const entries = await Promise.all(Object.entries(value).map(async ([key, item]) => [key, await encodeBlobs(item)] as const));
+    return Object.fromEntries(entries);
+  }
+  return value;
+};
+
+export const decodeBlobs = (value: unknown): unknown => {
+  if (isEncodedBlob(value)) return new Blob([base64ToUint8Array(value.$blob)], { type: value.type });
+  if (Array.isArray(value)) return value.map(decodeBlobs);
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, decodeBlobs(item)]));
+  }
+  return value;
+};
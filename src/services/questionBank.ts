@@ -0,0 +1,27 @@
+import type { BankQuestion, Question } from "../types";
+import { STORE_QUESTION_BANK, withStore } from "./db";
+import { createId } from "./ids";
+
+// Newest first
+export const listBankQuestions = async (): Promise<BankQuestion[]> => {
+  const questions = await withStore<BankQuestion[]>(STORE_QUESTION_BANK, 'readonly', store => store.getAll());
+  return questions.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const addToBank = async (question: Omit<Question, 'id'>, topic: string): Promise<BankQuestion> => {
+  const entry: BankQuestion = {
+    id: createId(),
+    text: question.text.trim(),
+    part: question.part,
+    target: question.target,
+    ...(question.prompts?.length ? { prompts: question.prompts } : {}),
+    topic,
+    createdAt: Date.now(),
+  };
+  await withStore(STORE_QUESTION_BANK, 'readwrite', store => store.put(entry));
+  return entry;
+};
+
+export const deleteBankQuestion = async (id: string): Promise<void> => {
+  await withStore(STORE_QUESTION_BANK, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,38 @@
+import type { RecognitionSegment, Seat, SessionData } from "../types";
+import { seatKey } from "./turnOrder";
+
+// --- How sure speech recognition was about what each learner said ---
+
+// Below this the recogniser was guessing; its alternatives may be what was really said
+export const LOW_CONFIDENCE = 0.7;
+
+export interface PlacedSegment {
+  questionId: string;
+  label: string; // e.g. "follow-up" or "conversation turn 3"; empty for the main answer
+  segment: RecognitionSegment;
+}
+
+// Every recognised segment for one learner: answers, follow-up replies and conversation turns
+export const getRecognitionSegments = (sessionData: SessionData, seat: Seat): PlacedSegment[] => {
+  const student = sessionData[seatKey(seat)];
+  const place = (questionId: string, label: string, segments: RecognitionSegment[] = []) =>
+    segments.map(segment => ({ questionId, label, segment }));
+  return [
+    ...Object.entries(student.recognition ?? {}).flatMap(([questionId, segments]) => place(questionId, "", segments)),
+    ...Object.entries(student.followUps ?? {}).flatMap(([questionId, f]) => place(questionId, "follow-up", f.recognition)),
+    ...Object.entries(sessionData.dialogues ?? {}).flatMap(([questionId, dialogue]) =>
+      dialogue.flatMap((turn, i) => (turn.seat === seat ? place(questionId, `conversation turn ${i + 1}`, turn.recognition) : []))),
+  ];
+};
+
+// Some browsers report 0 for every result, which means "unknown" rather than "wrong"
+const hasConfidence = (segment: RecognitionSegment) => segment.confidence > 0;
+
+export const getUncertainSegments = (sessionData: SessionData, seat: Seat): PlacedSegment[] =>
+  getRecognitionSegments(sessionData, seat).filter(({ segment }) => hasConfidence(segment) && segment.confidence < LOW_CONFIDENCE);
+
+// Mean confidence, 0-1, or null when the browser reported none
+export const getAverageConfidence = (sessionData: SessionData, seat: Seat): number | null => {
+  const scores = getRecognitionSegments(sessionData, seat).map(p => p.segment).filter(hasConfidence).map(s => s.confidence);
+  return scores.length > 0 ? scores.reduce((sum, n) => sum + n, 0) / scores.length : null;
+};
@@ -0,0 +1,145 @@
+import { ValidationError } from "./validation";
+
+// --- Shared request layer for every AI call: timeout, retry with backoff, cancellation ---
+
+// What went wrong, in terms the UI can act on
+export type AiErrorCategory =
+  | 'offline' // no connection at all
+  | 'timeout' // no answer within the time limit
+  | 'rate_limit' // too many requests (HTTP 429)
+  | 'auth' // missing or rejected API key
+  | 'server' // the service failed (HTTP 5xx)
+  | 'invalid_response' // the answer did not pass validation, even after repair
+  | 'bad_request' // the service refused the request itself (other HTTP 4xx)
+  | 'cancelled' // the caller aborted, e.g. the user left the screen
+  | 'unknown';
+
+const RETRYABLE: ReadonlySet<AiErrorCategory> = new Set(['offline', 'timeout', 'rate_limit', 'server', 'unknown']);
+
+export class AiRequestError extends Error {
+  readonly category: AiErrorCategory;
+  readonly retryable: boolean;
+
+  // `cause` is the error thrown by the provider, if any
+  constructor(category: AiErrorCategory, message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'AiRequestError';
+    this.category = category;
+    this.retryable = RETRYABLE.has(category);
+  }
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal; // aborting it cancels the current attempt and any retries
+  timeoutMs?: number; // per attempt
+  retries?: number; // extra attempts after the first, for retryable errors only
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 2;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 16000;
+// Rate limits are per minute, so there is no point retrying them quickly
+const RATE_LIMIT_BASE_DELAY_MS = 5000;
+
+// What fetch() rejects with when the network is down or the request was blocked:
+// Chrome, Firefox, Safari, and Node (whose cause carries the socket error code)
+const FETCH_FAILURE = /failed to fetch|networkerror|load failed|fetch failed/i;
+const NETWORK_ERROR_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'ETIMEDOUT', 'ENETUNREACH', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT']);
+
+// Any other TypeError is a bug, which must not be reported as "no internet" or retried
+const isNetworkFailure = (error: TypeError): boolean => {
+  const code = (error.cause as { code?: unknown } | undefined)?.code;
+  return FETCH_FAILURE.test(error.message) || (typeof code === 'string' && NETWORK_ERROR_CODES.has(code));
+};
+
+const statusOf = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+export const categorizeError = (error: unknown): AiErrorCategory => {
+  if (error instanceof AiRequestError) return error.category;
+  if (error instanceof ValidationError) return 'invalid_response';
+  if (error instanceof DOMException && error.name === 'AbortError') return 'cancelled';
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return 'offline';
+
+  const status = statusOf(error);
+  if (status === 429) return 'rate_limit';
+  if (status === 401 || status === 403) return 'auth';
+  if (status !== undefined && status >= 500) return 'server';
+  if (status !== undefined && status >= 400) {
+    // Gemini answers a bad key with 400 rather than 401
+    return /api key/i.test(String((error as Error).message)) ? 'auth' : 'bad_request';
+  }
+  if (error instanceof TypeError && isNetworkFailure(error)) return 'offline';
+  return 'unknown';
+};
+
+export const toAiRequestError = (error: unknown): AiRequestError =>
+  error instanceof AiRequestError
+    ? error
+    : new AiRequestError(categorizeError(error), error instanceof Error ? error.message : String(error), error);
+
+const abortReason = (signal: AbortSignal) =>
+  new AiRequestError('cancelled', "The request was cancelled.", signal.reason);
+
+// Resolves after `ms` unless the signal aborts first
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortReason(signal));
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortReason(signal!));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// One attempt: the task gets its own signal, aborted on timeout or when the caller aborts.
+// The race makes sure a provider that ignores its signal still cannot hang the caller.
+const attempt = <T>(task: (signal: AbortSignal) => Promise<T>, timeoutMs: number, outer?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onOuterAbort: (() => void) | undefined;
+
+  const stopped = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new AiRequestError('timeout', `No answer after ${Math.round(timeoutMs / 1000)} seconds.`));
+    }, timeoutMs);
+    onOuterAbort = () => {
+      controller.abort();
+      reject(abortReason(outer!));
+    };
+    outer?.addEventListener('abort', onOuterAbort, { once: true });
+  });
+
+  return Promise.race([task(controller.signal), stopped]).finally(() => {
+    clearTimeout(timer);
+    if (onOuterAbort) outer?.removeEventListener('abort', onOuterAbort);
+  });
+};
+
+// Runs `task` with a timeout per attempt and retries transient failures with
+// exponential backoff and jitter. Always rejects with an AiRequestError.
+export const runRequest = async <T>(task: (signal: AbortSignal) => Promise<T>, options: RequestOptions = {}): Promise<T> => {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES } = options;
+
+  for (let attemptNo = 0; ; attemptNo++) {
+    if (signal?.aborted) throw abortReason(signal);
+    try {
+      return await attempt(task, timeoutMs, signal);
+    } catch (err) {
+      const error = signal?.aborted ? abortReason(signal) : toAiRequestError(err);
+      if (!error.retryable || attemptNo >= retries) throw error;
+
+      const base = error.category === 'rate_limit' ? RATE_LIMIT_BASE_DELAY_MS : BASE_DELAY_MS;
+      const delay = Math.min(MAX_DELAY_MS, base * 2 ** attemptNo) * (0.75 + Math.random() * 0.5);
+      console.warn(`AI request failed (${error.category}), retrying in ${Math.round(delay)}ms`, err);
+      await wait(delay, signal);
+    }
+  }
+};
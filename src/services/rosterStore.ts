@@ -0,0 +1,88 @@
+import type { Roster, SessionMode, Student } from "../types";
+import { createId } from "./ids";
+
+const STORAGE_KEY = 'ket.roster';
+
+// The original pair; also used for sessions saved before the roster existed.
+export const DEFAULT_STUDENTS: [Student, Student] = [
+  { id: 'default-tom', name: 'Tom' },
+  { id: 'default-bella', name: 'Bella' },
+];
+
+// Sits in seat B during solo practice
+export const AI_PARTNER: Student = { id: 'ai-partner', name: 'Alex', isAi: true };
+
+const defaultRoster = (): Roster => ({
+  students: [...DEFAULT_STUDENTS],
+  pair: [DEFAULT_STUDENTS[0].id, DEFAULT_STUDENTS[1].id],
+  mode: 'pair',
+});
+
+// Keeps the pair pointing at two different learners that still exist.
+const repairPair = (students: Student[], pair: [string, string]): [string, string] => {
+  const ids = students.map(s => s.id);
+  const first = ids.includes(pair[0]) ? pair[0] : ids[0] ?? "";
+  const second = ids.includes(pair[1]) && pair[1] !== first
+    ? pair[1]
+    : ids.find(id => id !== first) ?? "";
+  return [first, second];
+};
+
+export const loadRoster = (): Roster => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return defaultRoster();
+    const parsed = JSON.parse(raw) as Roster;
+    if (!Array.isArray(parsed.students)) return defaultRoster();
+    return {
+      students: parsed.students,
+      pair: repairPair(parsed.students, parsed.pair ?? ["", ""]),
+      mode: parsed.mode === 'solo' ? 'solo' : 'pair',
+    };
+  } catch (e) {
+    console.warn("Could not read roster, using defaults", e);
+    return defaultRoster();
+  }
+};
+
+export const saveRoster = (roster: Roster) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(roster));
+  } catch (e) {
+    console.warn("Could not save roster", e);
+  }
+};
+
+export const addStudent = (roster: Roster, name: string): Roster => {
+  const students = [...roster.students, { id: createId(), name: name.trim() }];
+  return { ...roster, students, pair: repairPair(students, roster.pair) };
+};
+
+export const renameStudent = (roster: Roster, id: string, name: string): Roster => ({
+  ...roster,
+  students: roster.students.map(s => (s.id === id ? { ...s, name: name.trim() } : s)),
+});
+
+export const removeStudent = (roster: Roster, id: string): Roster => {
+  const students = roster.students.filter(s => s.id !== id);
+  return { ...roster, students, pair: repairPair(students, roster.pair) };
+};
+
+export const setPairSeat = (roster: Roster, seatIndex: 0 | 1, id: string): Roster => {
+  const pair: [string, string] = [...roster.pair];
+  const other = seatIndex === 0 ? 1 : 0;
+  // Picking the learner already in the other seat swaps them
+  if (pair[other] === id) pair[other] = pair[seatIndex];
+  pair[seatIndex] = id;
+  return { ...roster, pair };
+};
+
+export const setSessionMode = (roster: Roster, mode: SessionMode): Roster => ({ ...roster, mode });
+
+// Resolves who sits seats A and B, or null if not enough learners are available.
+export const getSessionStudents = (roster: Roster): [Student, Student] | null => {
+  const a = roster.students.find(s => s.id === roster.pair[0]);
+  if (roster.mode === 'solo') return a ? [a, AI_PARTNER] : null;
+  const b = roster.students.find(s => s.id === roster.pair[1]);
+  return a && b && a.id !== b.id ? [a, b] : null;
+};
@@ -0,0 +1,66 @@
+import type { AppSettings } from "../types";
+
+const STORAGE_KEY = 'ket.settings';
+
+// Close to the real A2 Key timings for a pair
+export const DEFAULT_SETTINGS: AppSettings = {
+  timing: {
+    enabled: true,
+    turnSeconds: { 'Part 1': 30, 'Part 2': 60 },
+    partMinutes: { 'Part 1': 4, 'Part 2': 6 },
+    autoAdvance: false,
+  },
+  followUps: {
+    enabled: true,
+    minWords: 8,
+  },
+  conversation: {
+    enabled: true,
+    maxTurns: 6,
+    minutes: 3,
+  },
+  voice: {
+    voice: 'Kore',
+    accent: 'en-GB',
+    rate: 'normal',
+  },
+  recognition: {
+    lang: 'en-GB',
+    continuous: true,
+    maxAlternatives: 3,
+  },
+};
+
+// Fills in anything missing from settings saved by an older version
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const parsed = JSON.parse(raw) as Partial<AppSettings>;
+    return {
+      ...DEFAULT_SETTINGS,
+      ...parsed,
+      timing: {
+        ...DEFAULT_SETTINGS.timing,
+        ...parsed.timing,
+        turnSeconds: { ...DEFAULT_SETTINGS.timing.turnSeconds, ...parsed.timing?.turnSeconds },
+        partMinutes: { ...DEFAULT_SETTINGS.timing.partMinutes, ...parsed.timing?.partMinutes },
+      },
+      followUps: { ...DEFAULT_SETTINGS.followUps, ...parsed.followUps },
+      conversation: { ...DEFAULT_SETTINGS.conversation, ...parsed.conversation },
+      voice: { ...DEFAULT_SETTINGS.voice, ...parsed.voice },
+      recognition: { ...DEFAULT_SETTINGS.recognition, ...parsed.recognition },
+    };
+  } catch (e) {
+    console.warn("Could not read settings, using defaults", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save settings", e);
+  }
+};
@@ -0,0 +1,93 @@
+import { STORE_SPEECH, withStore } from "./db";
+
+// --- Examiner speech cache ---
+// Playable blob URLs are kept in a small least-recently-used set and revoked
+// when they drop out, unless an audio element is still playing them; the plan's
+// question audio is also kept in IndexedDB, so a day that was heard before
+// plays instantly and works offline.
+
+interface StoredSpeech {
+  key: string;
+  blob: Blob;
+  storedAt: number; // ms since epoch of the last write or read, so pruning drops the least recently used
+}
+
+const MAX_URLS = 40;
+const MAX_STORED_CLIPS = 300; // a few MB of WAV per day's questions
+
+// Map order is least recently used first
+const urls = new Map<string, string>();
+// url -> how many players hold it; these are revoked on their last release
+const holders = new Map<string, number>();
+const dropped = new Set<string>();
+
+const revoke = (url: string) => {
+  if (holders.has(url)) dropped.add(url);
+  else URL.revokeObjectURL(url);
+};
+
+const touch = (key: string, url: string) => {
+  urls.delete(key);
+  urls.set(key, url);
+};
+
+// The same words in another voice are different audio
+export const speechCacheKey = (voice: string, text: string) => `${voice}|${text}`;
+
+export const getCachedUrl = (key: string): string | undefined => {
+  const url = urls.get(key);
+  if (url) touch(key, url);
+  return url;
+};
+
+export const cacheUrl = (key: string, blob: Blob): string => {
+  const previous = urls.get(key);
+  if (previous) revoke(previous);
+  urls.delete(key);
+
+  const url = URL.createObjectURL(blob);
+  urls.set(key, url);
+  for (const [oldKey, oldUrl] of urls) {
+    if (urls.size <= MAX_URLS) break;
+    urls.delete(oldKey);
+    revoke(oldUrl);
+  }
+  return url;
+};
+
+// Call when playback starts; also counts as a use of the clip
+export const retainUrl = (url: string) => {
+  holders.set(url, (holders.get(url) ?? 0) + 1);
+  const entry = [...urls].find(([, cached]) => cached === url);
+  if (entry) touch(...entry);
+};
+
+// Call when playback ends or is stopped
+export const releaseUrl = (url: string) => {
+  const count = (holders.get(url) ?? 0) - 1;
+  if (count > 0) return void holders.set(url, count);
+  holders.delete(url);
+  if (dropped.delete(url)) URL.revokeObjectURL(url);
+};
+
+// A hit counts as a use, so clips that keep being played outlive ones heard once
+export const loadStoredSpeech = async (key: string): Promise<Blob | undefined> => {
+  const entry = await withStore<StoredSpeech | undefined>(STORE_SPEECH, 'readonly', store => store.get(key));
+  if (entry) {
+    const touched: StoredSpeech = { ...entry, storedAt: Date.now() };
+    withStore(STORE_SPEECH, 'readwrite', store => store.put(touched))
+      .catch(err => console.warn("Could not update stored speech", err));
+  }
+  return entry?.blob;
+};
+
+// Drops the least recently used clips once the store is over its limit
+export const storeSpeech = async (key: string, blob: Blob): Promise<void> => {
+  const entry: StoredSpeech = { key, blob, storedAt: Date.now() };
+  await withStore(STORE_SPEECH, 'readwrite', store => store.put(entry));
+
+  const keys = await withStore<IDBValidKey[]>(STORE_SPEECH, 'readonly', store => store.index('storedAt').getAllKeys());
+  for (const oldKey of keys.slice(0, Math.max(0, keys.length - MAX_STORED_CLIPS))) {
+    await withStore(STORE_SPEECH, 'readwrite', store => store.delete(oldKey));
+  }
+};
@@ -0,0 +1,92 @@
+import type { Seat, SessionData } from "../types";
+import { A2_KEY_VOCABULARY } from "../data/a2KeyVocabulary";
+import { getSeatText, getSpokenQuestionIds } from "./conversation";
+
+// --- Deterministic transcript metrics (no AI involved) ---
+
+export interface SpeechMetrics {
+  answerCount: number;
+  totalWords: number;
+  wordsPerAnswer: number;
+  uniqueWordRatio: number; // distinct words / all words, 0-1
+  averageSentenceLength: number; // words per sentence
+  fillerCount: number;
+  fillers: Record<string, number>; // e.g. { um: 2, like: 1 }
+  oneWordAnswers: number;
+  a2Coverage: number; // share of distinct words found in the A2 Key list, 0-1
+  beyondA2Words: string[]; // distinct words not in the list, for the teacher to check
+}
+
+const FILLER_WORDS = new Set(['um', 'umm', 'uh', 'er', 'erm', 'hmm', 'mm']);
+
+// "like" is only a filler when it isn't the verb or the preposition: "I like pizza"
+// and "it looks like rain" should not count.
+const LIKE_NOT_FILLER_AFTER = new Set([
+  'i', 'you', 'we', 'they', 'he', 'she', 'it', 'would', "i'd", "you'd", 'really', 'also', 'to', 'not',
+  "don't", "doesn't", "didn't", 'do', 'does', 'did', 'look', 'looks', 'feel', 'feels', 'sound', 'sounds',
+  'just', 'is', 'was', 'are', 'what', 'people', 'friends', 'children', 'students',
+]);
+
+const tokenize = (text: string) =>
+  text.toLowerCase().match(/[a-z]+(?:'[a-z]+)?/g) ?? [];
+
+// Speech recognition rarely adds punctuation, so an answer without any counts as one sentence.
+const countSentences = (text: string) =>
+  Math.max(1, text.split(/[.!?]+/).filter(s => /[a-z]/i.test(s)).length);
+
+const isFiller = (word: string, previous: string | undefined) =>
+  FILLER_WORDS.has(word) || (word === 'like' && !LIKE_NOT_FILLER_AFTER.has(previous ?? ''));
+
+// Matches inflected forms against the base-form list: "played", "going", "cities", "bigger".
+const isA2Word = (word: string) => {
+  if (A2_KEY_VOCABULARY.has(word)) return true;
+  if (word.includes("'")) return true; // contractions (don't, I'm) are grammar, not vocabulary
+  const stems = [
+    word.replace(/ies$/, 'y'), word.replace(/ied$/, 'y'), word.replace(/es$/, ''), word.replace(/s$/, ''),
+    word.replace(/ed$/, ''), word.replace(/d$/, ''), word.replace(/ing$/, ''), word.replace(/ing$/, 'e'),
+    word.replace(/(.)\1ing$/, '$1'), word.replace(/(.)\1ed$/, '$1'), word.replace(/(.)\1er$/, '$1'), word.replace(/(.)\1est$/, '$1'),
+    word.replace(/er$/, ''), word.replace(/est$/, ''), word.replace(/ier$/, 'y'), word.replace(/iest$/, 'y'), word.replace(/ly$/, ''),
+  ];
+  return stems.some(stem => stem !== word && A2_KEY_VOCABULARY.has(stem));
+};
+
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+
+// Fillers are excluded from the vocabulary measures so "um um um" doesn't look varied.
+// A follow-up reply counts as part of the answer it followed, and all of a
+// learner's turns in a Part 2 conversation count as one answer.
+export const computeSpeechMetrics = (sessionData: SessionData, seat: Seat): SpeechMetrics => {
+  const answers = getSpokenQuestionIds(sessionData, seat).map(id => getSeatText(sessionData, seat, id));
+  const fillers: Record<string, number> = {};
+  const words: string[] = [];
+  let sentences = 0;
+  let oneWordAnswers = 0;
+
+  for (const answer of answers) {
+    const tokens = tokenize(answer);
+    const content = tokens.filter((word, i) => {
+      if (!isFiller(word, tokens[i - 1])) return true;
+      fillers[word] = (fillers[word] ?? 0) + 1;
+      return false;
+    });
+    if (content.length <= 1) oneWordAnswers++;
+    words.push(...content);
+    sentences += countSentences(answer);
+  }
+
+  const distinct = [...new Set(words)];
+  const beyondA2Words = distinct.filter(word => !isA2Word(word)).sort();
+
+  return {
+    answerCount: answers.length,
+    totalWords: words.length,
+    wordsPerAnswer: ratio(words.length, answers.length),
+    uniqueWordRatio: ratio(distinct.length, words.length),
+    averageSentenceLength: ratio(words.length, sentences),
+    fillerCount: Object.values(fillers).reduce((sum, n) => sum + n, 0),
+    fillers,
+    oneWordAnswers,
+    a2Coverage: ratio(distinct.length - beyondA2Words.length, distinct.length),
+    beyondA2Words,
+  };
+};
@@ -0,0 +1,25 @@
+import type { DailyPlan, Question, SessionData, Seat } from "../types";
+
+// --- Who answers each question, and in which order ---
+
+// Where a seat's data lives in SessionData
+export const seatKey = (seat: Seat): 'studentA' | 'studentB' => (seat === 'A' ? 'studentA' : 'studentB');
+
+// Single-learner questions go to that learner only. 'Both' questions alternate
+// who speaks first, so Student A does not always lead the discussion.
+export const getTurnOrder = (plan: DailyPlan, questionIdx: number): Seat[] => {
+  const question = plan.questions[questionIdx];
+  if (question.target !== 'Both') return [question.target];
+  const earlierShared = plan.questions.slice(0, questionIdx).filter(q => q.target === 'Both').length;
+  return earlierShared % 2 === 0 ? ['A', 'B'] : ['B', 'A'];
+};
+
+export const planTurnOrder = (plan: DailyPlan): Record<string, Seat[]> =>
+  Object.fromEntries(plan.questions.map((q, i) => [q.id, getTurnOrder(plan, i)]));
+
+// Sessions saved before the order was recorded had both learners answer everything, A first.
+export const getAskedSeats = (sessionData: SessionData, question: Question): Seat[] =>
+  sessionData.turnOrder?.[question.id] ?? ['A', 'B'];
+
+export const wasAsked = (sessionData: SessionData, question: Question, seat: Seat): boolean =>
+  getAskedSeats(sessionData, question).includes(seat);
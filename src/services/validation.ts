@@ -0,0 +1,184 @@
+import type { AnswerFeedback, CriterionBand, CriterionId, DailyPlan, EvaluationResult, FullReport, PromptOption, PronunciationFinding, Question } from "../types";
+import { MARKING_CRITERIA } from "../data/markingCriteria";
+import { findPromptIcon, PROMPT_ICON_IDS } from "../data/promptIcons";
+
+// --- Runtime checks for JSON from the model or from imported files ---
+// Each validator returns a normalised copy or throws a ValidationError that
+// lists every invalid field, so the model can be asked to fix exactly those.
+// The AI server (server/) reuses these checks, so nothing here may import UI
+// code: prompt icons come from the data-only table in data/promptIcons.
+
+export class ValidationError extends Error {
+  readonly subject: string; // what was checked, e.g. "day plan"
+  readonly issues: string[]; // one per invalid field, e.g. "questions[2].part is missing or invalid"
+
+  constructor(subject: string, issues: string[]) {
+    super(`Invalid ${subject}: ${issues.join('; ')}`);
+    this.name = 'ValidationError';
+    this.subject = subject;
+    this.issues = issues;
+  }
+}
+
+export type Fields = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readText = (value: unknown): string | undefined =>
+  (typeof value === 'string' && value.trim().length > 0 ? value.trim() : undefined);
+
+// Missing or malformed lists become empty; non-string entries are dropped
+const readTextList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value.flatMap(item => readText(item) ?? []) : []);
+
+const readNumber = (value: unknown): number | undefined =>
+  (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+
+const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
+
+const QUESTION_PARTS: readonly unknown[] = ['Part 1', 'Part 2'];
+const TARGETS: readonly unknown[] = ['A', 'B', 'Both'];
+const INTELLIGIBILITY: readonly unknown[] = ['clear', 'mostly clear', 'hard to understand'];
+
+export const parseJson = (text: string | undefined, subject: string): unknown => {
+  if (!text?.trim()) throw new ValidationError(subject, ["the response was empty"]);
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ValidationError(subject, ["the response is not valid JSON"]);
+  }
+};
+
+// --- Plans ---
+
+// A prompt without a label is dropped; an unknown icon is matched from the label
+const checkPromptOption = (value: unknown): PromptOption[] => {
+  if (!isRecord(value)) return [];
+  const label = readText(value.label);
+  if (!label) return [];
+  const icon = readText(value.icon);
+  return [{ label, icon: icon && PROMPT_ICON_IDS.includes(icon) ? icon : findPromptIcon(label) }];
+};
+
+const checkQuestion = (value: unknown, path: string, issues: string[]): Question | null => {
+  if (!isRecord(value)) {
+    issues.push(`${path} is not an object`);
+    return null;
+  }
+  const id = readText(value.id);
+  const text = readText(value.text);
+  const part = QUESTION_PARTS.includes(value.part) ? value.part as Question['part'] : undefined;
+  const target = TARGETS.includes(value.target) ? value.target as Question['target'] : undefined;
+  if (!id) issues.push(`${path}.id is missing`);
+  if (!text) issues.push(`${path}.text is missing`);
+  if (!part) issues.push(`${path}.part must be "Part 1" or "Part 2"`);
+  if (!target) issues.push(`${path}.target must be "A", "B" or "Both"`);
+  if (!id || !text || !part || !target) return null;
+
+  // Only Part 2 discusses pictures
+  const prompts = part === 'Part 2' && Array.isArray(value.prompts) ? value.prompts.flatMap(checkPromptOption) : [];
+  return prompts.length > 0 ? { id, text, part, target, prompts } : { id, text, part, target };
+};
+
+export const validateQuestion = (value: unknown): Question => {
+  const issues: string[] = [];
+  const question = checkQuestion(value, "question", issues);
+  if (!question) throw new ValidationError("question", issues);
+  return question;
+};
+
+export const validateDailyPlan = (value: unknown): DailyPlan => {
+  const issues: string[] = [];
+  if (!isRecord(value)) throw new ValidationError("day plan", ["the plan is not an object"]);
+
+  const day = readNumber(value.day);
+  const topic = readText(value.topic);
+  if (day === undefined || !Number.isInteger(day) || day < 1 || day > 30) issues.push("day must be a whole number from 1 to 30");
+  if (!topic) issues.push("topic is missing");
+
+  const questions: Question[] = [];
+  if (!Array.isArray(value.questions) || value.questions.length === 0) {
+    issues.push("questions must be a non-empty list");
+  } else {
+    const seen = new Set<string>();
+    value.questions.forEach((item, i) => {
+      const question = checkQuestion(item, `questions[${i}]`, issues);
+      if (!question) return;
+      if (seen.has(question.id)) issues.push(`questions[${i}].id "${question.id}" is used more than once`);
+      seen.add(question.id);
+      questions.push(question);
+    });
+  }
+
+  if (issues.length > 0 || day === undefined || !topic) throw new ValidationError("day plan", issues);
+  const source = value.source === 'generated' || value.source === 'authored' ? value.source : undefined;
+  return source ? { day, topic, questions, source } : { day, topic, questions };
+};
+
+// --- Reports ---
+
+// All four criteria or none: a partial set would leave gaps in the charts
+const checkCriteria = (value: unknown): Record<CriterionId, CriterionBand> | undefined => {
+  if (!isRecord(value)) return undefined;
+  const bands = MARKING_CRITERIA.map(({ id }) => {
+    const entry = value[id];
+    const band = isRecord(entry) ? readNumber(entry.band) : undefined;
+    return band === undefined ? null : [id, { band: clamp(Math.round(band), 0, 5), justification: readText((entry as Fields).justification) ?? "" }] as const;
+  });
+  return bands.every(b => b !== null) ? Object.fromEntries(bands) as Record<CriterionId, CriterionBand> : undefined;
+};
+
+const checkPronunciation = (value: unknown): PronunciationFinding | undefined => {
+  if (!isRecord(value) || !INTELLIGIBILITY.includes(value.intelligibility)) return undefined;
+  return {
+    mispronouncedWords: readTextList(value.mispronouncedWords),
+    stress: readText(value.stress) ?? "",
+    intelligibility: value.intelligibility as PronunciationFinding['intelligibility'],
+  };
+};
+
+// Feedback that doesn't say which question or how to correct it is dropped
+const checkAnswerFeedback = (value: unknown): AnswerFeedback[] => {
+  if (!isRecord(value)) return [];
+  const questionId = readText(value.questionId);
+  const corrected = readText(value.corrected);
+  if (!questionId || !corrected) return [];
+  const pronunciation = checkPronunciation(value.pronunciation);
+  const feedback: AnswerFeedback = { questionId, corrected, errors: readTextList(value.errors), tip: readText(value.tip) ?? "" };
+  return pronunciation ? [{ ...feedback, pronunciation }] : [feedback];
+};
+
+const checkEvaluation = (value: unknown, path: string, issues: string[]): EvaluationResult | null => {
+  if (!isRecord(value)) {
+    issues.push(`${path} is missing`);
+    return null;
+  }
+  const score = readNumber(value.score);
+  const feedback = readText(value.feedback);
+  if (score === undefined) issues.push(`${path}.score must be a number`);
+  if (!feedback) issues.push(`${path}.feedback is missing`);
+  if (score === undefined || !feedback) return null;
+
+  const result: EvaluationResult = {
+    score: clamp(score, 0, 5),
+    feedback,
+    goodPoints: readTextList(value.goodPoints),
+    badPoints: readTextList(value.badPoints),
+    suggestions: readTextList(value.suggestions),
+  };
+  const criteria = checkCriteria(value.criteria);
+  if (criteria) result.criteria = criteria;
+  if (Array.isArray(value.answerFeedback)) result.answerFeedback = value.answerFeedback.flatMap(checkAnswerFeedback);
+  return result;
+};
+
+// `aiSeats` marks seats taken by the AI partner: they are never scored, so they come back null
+export const validateFullReport = (value: unknown, aiSeats: { studentA: boolean, studentB: boolean }): FullReport => {
+  if (!isRecord(value)) throw new ValidationError("report", ["the report is not an object"]);
+  const issues: string[] = [];
+  const studentA = aiSeats.studentA ? null : checkEvaluation(value.studentA, "studentA", issues);
+  const studentB = aiSeats.studentB ? null : checkEvaluation(value.studentB, "studentB", issues);
+  if (issues.length > 0) throw new ValidationError("report", issues);
+  return { studentA, studentB, generalFeedback: readText(value.generalFeedback) ?? "" };
+};
@@ -1,39 +1,205 @@
+export interface Student {
+  id: string;
+  name: string;
+  isAi?: boolean; // the AI partner candidate in solo practice
+}
+
+export type Seat = 'A' | 'B';
+
+// pair: two learners; solo: one learner (Student A) with an AI partner as Student B
+export type SessionMode = 'pair' | 'solo';
+
+// Learners saved on this device and who sits the next session
+export interface Roster {
+  students: Student[];
+  pair: [string, string]; // [Student A id, Student B id]
+  mode: SessionMode;
+}
+
+// generated: written by the AI provider; authored: written or edited by a teacher
+export type PlanSource = 'generated' | 'authored';
+
 export interface DailyPlan {
   day: number;
   topic: string;
   questions: Question[];
+  source?: PlanSource; // missing on plans saved before the editor existed
 }
 
+export type QuestionPart = 'Part 1' | 'Part 2'; // Part 1: Interview, Part 2: Discussion
+
 export interface Question {
   id: string;
   text: string;
-  part: 'Part 1' | 'Part 2'; // Part 1: Interview, Part 2: Discussion
-  target: 'Tom' | 'Bella' | 'Both';
+  part: QuestionPart;
+  target: Seat | 'Both'; // A = first learner of the pair, B = second
+  prompts?: PromptOption[]; // Part 2 only: the pictures the pair discusses
+}
+
+// One labelled picture in a Part 2 prompt set
+export interface PromptOption {
+  label: string;
+  icon: string; // id from the bundled library in data/promptIcons
+}
+
+// A question a teacher kept for reuse, e.g. from a past paper
+export interface BankQuestion extends Omit<Question, 'id'> {
+  id: string;
+  topic: string; // topic of the plan it was saved from
+  createdAt: number; // ms since epoch
 }
 
 export interface SessionData {
   studentA: StudentSessionData;
   studentB: StudentSessionData;
+  turnOrder?: Record<string, Seat[]>; // questionId -> who was asked, in speaking order
+  dialogues?: Record<string, DialogueTurn[]>; // questionId -> Part 2 conversation, in speaking order
+}
+
+// One utterance in a Part 2 conversation; these replace `answers` for that question
+export interface DialogueTurn {
+  seat: Seat;
+  text: string; // empty if time ran out
+  audio?: Blob;
+  timing?: AnswerTiming;
+  recognition?: RecognitionSegment[];
+}
+
+// One finalised stretch of recognised speech, as the browser heard it
+export interface RecognitionSegment {
+  transcript: string;
+  confidence: number; // 0-1; 0 when the browser gives no score
+  alternatives?: { transcript: string, confidence: number }[]; // less likely readings, best first
+}
+
+// Timestamps are ms since epoch
+export interface AnswerTiming {
+  turnStartedAt: number; // the learner's box became active
+  startedAt?: number; // first started speaking; missing for typed answers
+  endedAt: number; // submitted
+  speakingMs: number; // time the microphone was actually listening
+}
+
+// What StudentBox hands back when a learner finishes a turn
+export interface SubmittedAnswer {
+  text: string;
+  audio?: Blob;
+  timing?: AnswerTiming;
+  recognition?: RecognitionSegment[]; // missing for typed answers
 }
 
 export interface StudentSessionData {
+  student: Student;
   answers: Record<string, string>; // questionId -> transcript
+  audio?: Record<string, Blob>; // questionId -> recording of the answer, when the mic allowed it
+  timings?: Record<string, AnswerTiming>; // questionId -> when and how long the learner spoke
+  followUps?: Record<string, FollowUpTurn>; // questionId -> the examiner's back-up prompt and reply
+  recognition?: Record<string, RecognitionSegment[]>; // questionId -> how sure speech recognition was
+}
+
+// Asked by the examiner when the first answer to a question was too thin
+export interface FollowUpTurn {
+  prompt: string;
+  answer: string; // empty if time ran out
+  audio?: Blob;
+  timing?: AnswerTiming;
+  recognition?: RecognitionSegment[];
+}
+
+export type CriterionId = 'grammarVocabulary' | 'pronunciation' | 'interactiveCommunication' | 'globalAchievement';
+
+export interface CriterionBand {
+  band: number; // 0-5
+  justification: string;
+}
+
+// Judged from the recording, not the transcript
+export interface PronunciationFinding {
+  mispronouncedWords: string[];
+  stress: string; // word stress and intonation notes
+  intelligibility: 'clear' | 'mostly clear' | 'hard to understand';
+}
+
+// Feedback on one answer, keyed by the question it answers
+export interface AnswerFeedback {
+  questionId: string;
+  corrected: string; // the answer rewritten as correct A2-level English
+  errors: string[];
+  tip: string;
+  pronunciation?: PronunciationFinding; // only when audio was available
 }
 
 export interface EvaluationResult {
   score: number; // 0-5
+  criteria?: Record<CriterionId, CriterionBand>; // missing on older saved sessions
   feedback: string;
   goodPoints: string[];
   badPoints: string[];
   suggestions: string[];
+  answerFeedback?: AnswerFeedback[]; // one per answered question
 }
 
 export interface FullReport {
-  studentA: EvaluationResult;
-  studentB: EvaluationResult;
+  // null for a seat taken by the AI partner, which is never scored
+  studentA: EvaluationResult | null;
+  studentB: EvaluationResult | null;
   generalFeedback: string;
 }
 
+export interface TimingSettings {
+  enabled: boolean; // show countdowns
+  turnSeconds: Record<QuestionPart, number>; // per answer
+  partMinutes: Record<QuestionPart, number>; // per part of the test
+  autoAdvance: boolean; // submit / move on when time runs out
+}
+
+export interface FollowUpSettings {
+  enabled: boolean;
+  minWords: number; // shorter first answers get a follow-up
+}
+
+// Part 2 questions for both learners become a back-and-forth discussion
+export interface ConversationSettings {
+  enabled: boolean;
+  maxTurns: number; // utterances in total, both learners together
+  minutes: number; // the conversation also ends when this runs out
+}
+
+export type SpeakingRate = 'normal' | 'slow' | 'very slow';
+
+// How the examiner sounds, on every speech path
+export interface VoiceSettings {
+  voice: string; // provider voice name, e.g. Gemini's "Kore"
+  accent: string; // BCP 47 tag for the browser's fallback voice, e.g. "en-GB"
+  rate: SpeakingRate; // slower for beginners
+}
+
+// Speech recognition in the learners' boxes
+export interface RecognitionSettings {
+  lang: string; // BCP 47 tag of the model to recognise against, e.g. "en-GB"
+  continuous: boolean; // keep listening through pauses until Stop, restarting when the browser ends a session
+  maxAlternatives: number; // readings kept per segment, 1-5
+}
+
+export interface AppSettings {
+  timing: TimingSettings;
+  followUps: FollowUpSettings;
+  conversation: ConversationSettings;
+  voice: VoiceSettings;
+  recognition: RecognitionSettings;
+}
+
+// A finished session as kept in local history
+export interface SessionRecord {
+  id: string;
+  timestamp: number; // ms since epoch
+  day: number;
+  topic: string;
+  plan: DailyPlan;
+  sessionData: SessionData;
+  report: FullReport;
+}
+
 // Web Speech API Types
 export interface IWindow extends Window {
   webkitSpeechRecognition: any;
@@ -2,13 +2,21 @@ import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
   const env = loadEnv(mode, (process as any).cwd(), '');
+  // The AI server (server/index.ts) owns the API key; the browser only talks to its /api routes
+  const apiProxy = { '/api': `http://localhost:${env.SERVER_PORT || 8787}` };
   return {
     plugins: [react()],
+    // The server build (npm run build:server) has no static files to copy
+    publicDir: isSsrBuild ? false : 'public',
     define: {
-      // Polyfill process.env.API_KEY so the code works in browser
-      'process.env.API_KEY': JSON.stringify(env.VITE_API_KEY),
+      // Where the AI server is; left unset, /api on the same origin (proxied in dev and preview)
+      'process.env.API_BASE_URL': JSON.stringify(env.VITE_API_BASE_URL ?? ''),
+      // 'local' runs the offline provider without a server; anything else uses the server
+      'process.env.AI_PROVIDER': JSON.stringify(env.VITE_AI_PROVIDER),
     },
+    server: { proxy: apiProxy },
+    preview: { proxy: apiProxy },
   };
-});
\ No newline at end of file
+});